@@ -4,20 +4,27 @@ import yargs from "yargs/yargs";
 import { hideBin } from 'yargs/helpers'
 import os from "os";
 import path from "path";
+import http from "http";
+import { randomUUID, timingSafeEqual } from "crypto";
 import { promises as fs } from "fs";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  ReadResourceRequest,
+  ServerNotification,
   CallToolResult,
   TextContent,
   ImageContent,
   Tool,
+  isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import playwright, { Browser, Page, BrowserContext, chromium, firefox, webkit } from "playwright";
+import playwright, { Browser, Page, BrowserContext, Dialog, Download, Frame, Locator, Request, Response, Route, Video, chromium, firefox, webkit } from "playwright";
 import sharp from 'sharp';
 
 // Log entry interfaces
@@ -32,6 +39,27 @@ interface NetworkLogEntry {
   statusText?: string;
   duration?: number;
   errorText?: string;
+  requestHeaders?: Record<string, string>;
+  postData?: string;
+  responseHeaders?: Record<string, string>;
+  responseSize?: number;
+  timing?: NetworkTiming;
+}
+
+// Timing breakdown in milliseconds, derived from Playwright's request.timing()
+interface NetworkTiming {
+  dns?: number;
+  connect?: number;
+  tls?: number;
+  ttfb?: number;
+  download?: number;
+  total?: number;
+}
+
+interface PendingRequest {
+  id: string;
+  startTime: number;
+  responseEntry?: NetworkLogEntry;
 }
 
 interface ConsoleLogEntry {
@@ -43,6 +71,39 @@ interface ConsoleLogEntry {
 // Buffer limits
 const MAX_NETWORK_LOGS = 1000;
 const MAX_CONSOLE_LOGS = 500;
+const MAX_POST_DATA_LENGTH = 10000;
+const DEFAULT_RESPONSE_BODY_LENGTH = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 100000;
+const DEFAULT_CONTENT_LENGTH = 20000;
+const MAX_CONTENT_LENGTH = 100000;
+const DEFAULT_EXTRACT_PAGES = 10;
+const DEFAULT_EXTRACT_ROWS = 1000;
+
+// Directory where recorded HAR files are written
+const HAR_DIR = path.join(os.tmpdir(), "mcp-server-playwright", "har");
+
+// Directory where Playwright traces are written
+const TRACE_DIR = path.join(os.tmpdir(), "mcp-server-playwright", "traces");
+
+// Directory where session videos are written
+const VIDEO_DIR = path.join(os.tmpdir(), "mcp-server-playwright", "videos");
+
+// Server configuration, set from command line options
+const config = {
+  stateDir: path.join(os.homedir(), ".mcp-server-playwright", "storage-state"),
+  uploadDir: path.join(os.homedir(), ".mcp-server-playwright", "files"),
+  downloadsDir: path.join(os.tmpdir(), "mcp-server-playwright", "downloads"),
+  outputDir: path.join(os.tmpdir(), "mcp-server-playwright", "output"),
+  screenshotsDir: path.join(os.homedir(), ".mcp-server-playwright", "screenshots"),
+  maxScreenshots: 100,
+  maxScreenshotBytes: 100 * 1024 * 1024,
+  ambiguityPolicy: "error" as AmbiguityPolicy,
+  ambiguityIndex: undefined as number | undefined,
+};
+
+// What to do when a locator matches several elements
+type AmbiguityPolicy = "error" | "first" | "last" | "nth";
+const MAX_AMBIGUITY_CANDIDATES = 10;
 
 enum ToolName {
   BrowserLaunch = "browser_launch",
@@ -65,14 +126,94 @@ enum ToolName {
   BrowserWaitForSelector = "browser_wait_for_selector",
   BrowserWaitForLoadState = "browser_wait_for_load_state",
   BrowserWaitForUrl = "browser_wait_for_url",
-  BrowserWaitForFunction = "browser_wait_for_function"
+  BrowserWaitForFunction = "browser_wait_for_function",
+  BrowserSnapshot = "browser_snapshot",
+  BrowserRoute = "browser_route",
+  BrowserUnroute = "browser_unroute",
+  BrowserListRoutes = "browser_list_routes",
+  BrowserExportHar = "browser_export_har",
+  BrowserGetNetworkEntry = "browser_get_network_entry",
+  BrowserSessionCreate = "browser_session_create",
+  BrowserSessionList = "browser_session_list",
+  BrowserSessionSwitch = "browser_session_switch",
+  BrowserSessionClose = "browser_session_close",
+  BrowserSaveStorageState = "browser_save_storage_state",
+  BrowserLoadStorageState = "browser_load_storage_state",
+  BrowserGetCookies = "browser_get_cookies",
+  BrowserSetCookies = "browser_set_cookies",
+  BrowserClearCookies = "browser_clear_cookies",
+  BrowserUpload = "browser_upload",
+  BrowserListDownloads = "browser_list_downloads",
+  BrowserSetDialogPolicy = "browser_set_dialog_policy",
+  BrowserHandleDialog = "browser_handle_dialog",
+  BrowserPressKey = "browser_press_key",
+  BrowserType = "browser_type",
+  BrowserMouse = "browser_mouse",
+  BrowserDrag = "browser_drag",
+  BrowserScroll = "browser_scroll",
+  BrowserExportScript = "browser_export_script",
+  BrowserTraceStart = "browser_trace_start",
+  BrowserTraceStop = "browser_trace_stop",
+  BrowserGetVideo = "browser_get_video",
+  BrowserPdf = "browser_pdf",
+  BrowserCompareScreenshots = "browser_compare_screenshots",
+  BrowserListScreenshots = "browser_list_screenshots",
+  BrowserDeleteScreenshot = "browser_delete_screenshot",
+  BrowserGetContent = "browser_get_content",
+  BrowserExtract = "browser_extract",
+  BrowserFillForm = "browser_fill_form",
+  BrowserListFrames = "browser_list_frames"
 }
 
+// Schema of the locator argument shared by the interaction tools
+const LOCATOR_SCHEMA = {
+  type: "object",
+  description: "Element to target: set one of css, xpath, text, role, label, placeholder, altText, title, testId or ref, optionally narrowed by the filters. Text values written as /pattern/flags are regular expressions. Alternative to selector and ref.",
+  properties: {
+    css: { type: "string", description: "CSS selector" },
+    xpath: { type: "string", description: "XPath expression" },
+    text: { type: "string", description: "Text content of the element" },
+    role: { type: "string", description: "ARIA role, e.g. button, link, textbox, checkbox" },
+    name: { type: "string", description: "Accessible name of the element, used with role" },
+    label: { type: "string", description: "Text of the label of a form control" },
+    placeholder: { type: "string", description: "Placeholder of an input" },
+    altText: { type: "string", description: "Alt text of an image" },
+    title: { type: "string", description: "Title attribute of the element" },
+    testId: { type: "string", description: "Test id (data-testid attribute)" },
+    ref: { type: "string", description: "Element ref from browser_snapshot" },
+    exact: { type: "boolean", description: "Match text, name, label, placeholder, altText and title exactly and case-sensitively (default: false)" },
+    hasText: { type: "string", description: "Only match elements containing this text" },
+    hasNotText: { type: "string", description: "Only match elements not containing this text" },
+    has: { type: "object", description: "Only match elements containing an element matching this nested locator" },
+    within: { type: "object", description: "Only search inside the element matching this nested locator" },
+    nth: { type: "number", description: "Pick one of the matches by its 0-based index (-1 for the last)" }
+  }
+};
+
+// Schema of the frame argument of the tools that can run inside an iframe
+const FRAME_SCHEMA = {
+  description: "Frame to run in: a frame name or URL pattern (glob with * or **, /regex/ or a substring), or an object with name, url or selector (a selector of the iframe element, or a list of them for nested iframes). Defaults to the main frame.",
+  oneOf: [
+    { type: "string" },
+    {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Name of the frame (name or id attribute of the iframe)" },
+        url: { type: "string", description: "URL pattern of the frame" },
+        selector: {
+          oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+          description: "Selector of the iframe element, or a list of selectors from the outermost to the innermost iframe"
+        }
+      }
+    }
+  ]
+};
+
 // Define the tools once to avoid repetition
 const TOOLS: Tool[] = [
   {
     name: ToolName.BrowserLaunch,
-    description: "Launch a new browser or connect to existing via CDP. Auto-closes any existing browser.",
+    description: "Launch a new browser or connect to existing via CDP. Auto-closes any existing browser of the session.",
     inputSchema: {
       type: "object",
       properties: {
@@ -108,14 +249,85 @@ const TOOLS: Tool[] = [
             y: { type: "number" }
           },
           description: "Window position on screen (non-headless only)"
+        },
+        recordHar: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Name of the HAR recording (default: session-<timestamp>)"
+            },
+            content: {
+              type: "string",
+              enum: ["embed", "omit"],
+              description: "Whether to embed response bodies in the HAR (default: embed)"
+            },
+            mode: {
+              type: "string",
+              enum: ["full", "minimal"],
+              description: "'minimal' only records what is needed to replay with replayHar (default: full)"
+            },
+            urlFilter: {
+              type: "string",
+              description: "Only record requests matching this glob pattern"
+            }
+          },
+          description: "Record all traffic of the browser context into a HAR file (not applicable when using cdpEndpoint). Use browser_export_har to finalize it."
+        },
+        replayHar: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "Name of a previously recorded HAR, or path of a HAR file in the upload directory"
+            },
+            url: {
+              type: "string",
+              description: "Only serve requests matching this glob pattern from the HAR"
+            },
+            notFound: {
+              type: "string",
+              enum: ["abort", "fallback"],
+              description: "What to do with requests not found in the HAR (default: abort)"
+            }
+          },
+          required: ["path"],
+          description: "Serve matching requests from a HAR file instead of the network"
+        },
+        storageState: {
+          type: "string",
+          description: "Name of a storage state saved with browser_save_storage_state to start the context with (not applicable when using cdpEndpoint)"
+        },
+        recordVideo: {
+          type: "object",
+          properties: {
+            size: {
+              type: "object",
+              properties: {
+                width: { type: "number" },
+                height: { type: "number" }
+              },
+              description: "Video frame size (default: the viewport scaled down to fit 800x800)"
+            }
+          },
+          description: "Record a video of every tab (not applicable when using cdpEndpoint). Use browser_get_video to get a tab's recording."
         }
       },
       required: []
     }
   },
+  {
+    name: ToolName.BrowserExportHar,
+    description: "Finalize the HAR recording started with browser_launch recordHar and expose it as a har://<name> resource. Playwright only writes HAR files when the browser context closes, so this ends the session's browser: all its tabs are closed and browser_launch is needed to continue.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: []
+    }
+  },
   {
     name: ToolName.BrowserClose,
-    description: "Close the current browser instance",
+    description: "Close the current session's browser instance",
     inputSchema: {
       type: "object",
       properties: {},
@@ -142,25 +354,56 @@ const TOOLS: Tool[] = [
         name: { type: "string", description: "Name for the screenshot" },
         selector: { type: "string", description: "CSS selector for element to screenshot" },
         fullPage: { type: "boolean", description: "Take a full page screenshot (default: false)", default: false },
-        grayscale: { type: "boolean", description: "Convert to grayscale to reduce size by ~76% (default: true)", default: true },
+        grayscale: { type: "boolean", description: "Convert to grayscale to reduce size by ~76% (default: false)", default: false },
+        format: { type: "string", enum: ["png", "jpeg", "webp"], description: "Image format (default: png)", default: "png" },
+        quality: { type: "number", description: "Quality between 0 and 100 for jpeg and webp (default: 80)" },
+        maxWidth: { type: "number", description: "Downscale the screenshot to at most this width, keeping the aspect ratio" },
+        maxHeight: { type: "number", description: "Downscale the screenshot to at most this height, keeping the aspect ratio" },
+        clip: {
+          type: "object",
+          properties: {
+            x: { type: "number" },
+            y: { type: "number" },
+            width: { type: "number" },
+            height: { type: "number" }
+          },
+          required: ["x", "y", "width", "height"],
+          description: "Area of the page to capture (not applicable with selector or frame)"
+        },
+        mask: {
+          type: "array",
+          items: { type: "string" },
+          description: "CSS selectors of elements to cover with a solid box, e.g. dynamic or sensitive content"
+        },
+        maskColor: { type: "string", description: "CSS color of the mask boxes (default: #FF00FF)" },
+        omitBackground: { type: "boolean", description: "Hide the default white background to capture transparency (png and webp only, default: false)" },
+        animations: {
+          type: "string",
+          enum: ["allow", "disabled"],
+          description: "'disabled' finishes finite CSS animations and transitions and cancels infinite ones before capturing (default: allow)"
+        },
+        thumbnail: { type: "boolean", description: "Also store a small PNG thumbnail as a thumbnail://<name> resource (default: false)" },
+        overwrite: { type: "boolean", description: "Replace an existing screenshot with the same name instead of picking a new name (default: false)" },
       },
       required: ["name"],
     },
   },
   {
     name: ToolName.BrowserClick,
-    description: "Click an element on the page using CSS selector",
+    description: "Click an element on the page using a locator, CSS selector or snapshot ref",
     inputSchema: {
       type: "object",
       properties: {
         selector: { type: "string", description: "CSS selector for element to click" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
       },
-      required: ["selector"],
+      required: [],
     },
   },
   {
     name: ToolName.BrowserClickText,
-    description: "Click an element on the page by its text content",
+    description: "Click an element on the page by its text content (like browser_click with locator { text }, but the text is never a regular expression)",
     inputSchema: {
       type: "object",
       properties: {
@@ -171,31 +414,35 @@ const TOOLS: Tool[] = [
   },
   {
     name: ToolName.BrowserFill,
-    description: "Fill out an input field",
+    description: "Fill out an input field using a locator, CSS selector or snapshot ref",
     inputSchema: {
       type: "object",
       properties: {
         selector: { type: "string", description: "CSS selector for input field" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
         value: { type: "string", description: "Value to fill" },
       },
-      required: ["selector", "value"],
+      required: ["value"],
     },
   },
   {
     name: ToolName.BrowserSelect,
-    description: "Select an element on the page with Select tag using CSS selector",
+    description: "Select an element on the page with Select tag using a locator, CSS selector or snapshot ref",
     inputSchema: {
       type: "object",
       properties: {
         selector: { type: "string", description: "CSS selector for element to select" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
         value: { type: "string", description: "Value to select" },
       },
-      required: ["selector", "value"],
+      required: ["value"],
     },
   },
   {
     name: ToolName.BrowserSelectText,
-    description: "Select an element on the page with Select tag by its text content",
+    description: "Select an element on the page with Select tag by its text content (like browser_select with locator { text }, but the text is never a regular expression)",
     inputSchema: {
       type: "object",
       properties: {
@@ -207,18 +454,20 @@ const TOOLS: Tool[] = [
   },
   {
     name: ToolName.BrowserHover,
-    description: "Hover an element on the page using CSS selector",
+    description: "Hover an element on the page using a locator, CSS selector or snapshot ref",
     inputSchema: {
       type: "object",
       properties: {
         selector: { type: "string", description: "CSS selector for element to hover" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
       },
-      required: ["selector"],
+      required: [],
     },
   },
   {
     name: ToolName.BrowserHoverText,
-    description: "Hover an element on the page by its text content",
+    description: "Hover an element on the page by its text content (like browser_hover with locator { text }, but the text is never a regular expression)",
     inputSchema: {
       type: "object",
       properties: {
@@ -262,7 +511,7 @@ const TOOLS: Tool[] = [
                 types: {
                   type: "array",
                   items: { type: "string" },
-                  description: "Filter by console types: log, warn, error, info, debug"
+                  description: "Filter by console types: log, warn, error, info, debug, dialog"
                 },
                 search: {
                   type: "string",
@@ -312,11 +561,37 @@ const TOOLS: Tool[] = [
         limit: {
           type: "number",
           description: "Maximum number of entries to return per log type (default: 100)"
+        },
+        includeHeaders: {
+          type: "boolean",
+          description: "Include request/response headers and post data in network entries (default: false, use browser_get_network_entry for one entry)"
         }
       },
       required: []
     }
   },
+  {
+    name: ToolName.BrowserGetNetworkEntry,
+    description: "Get full detail for one network log entry: request headers, post data, response headers, sizes and optionally the response body",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The network entry ID from browser_get_logs"
+        },
+        includeBody: {
+          type: "boolean",
+          description: "Fetch the response body (text and JSON responses only, default: false)"
+        },
+        maxBodyLength: {
+          type: "number",
+          description: `Maximum number of body characters to return (default: ${DEFAULT_RESPONSE_BODY_LENGTH}, max: ${MAX_RESPONSE_BODY_LENGTH})`
+        }
+      },
+      required: ["id"]
+    }
+  },
   {
     name: ToolName.BrowserNewTab,
     description: "Open a new browser tab and optionally navigate to a URL. Returns the tab ID.",
@@ -356,7 +631,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: ToolName.BrowserCloseTab,
-    description: "Close a browser tab by its ID. If closing the active tab, switches to another open tab.",
+    description: "Close a browser tab by its ID. If closing the active tab, switches to another open tab. The page's beforeunload handler runs first, and dismissing its dialog keeps the tab open.",
     inputSchema: {
       type: "object",
       properties: {
@@ -453,1032 +728,4813 @@ const TOOLS: Tool[] = [
       required: ["expression"]
     }
   },
-];
-
-// Tab tracking interface
-interface TabInfo {
-  page: Page;
-  id: string;
-}
-
-// Global state
-let browser: Browser | undefined;
-let context: BrowserContext | undefined;
-const tabs = new Map<string, TabInfo>();
-let activeTabId: string | undefined;
-let tabCounter = 0;
-const consoleLogs: ConsoleLogEntry[] = [];
-const networkLogs: NetworkLogEntry[] = [];
-const pendingRequests = new Map<string, { startTime: number; id: string }>();
-const screenshots = new Map<string, string>();
-
-// Helper to get active page
-function getActivePage(): Page | undefined {
-  if (!activeTabId) return undefined;
-  const tab = tabs.get(activeTabId);
-  return tab?.page;
-}
-
-// Helper to generate tab ID
-function generateTabId(): string {
-  return `tab-${++tabCounter}`;
-}
-
-// Helper function to attach page event listeners for logging
-function attachPageListeners(targetPage: Page) {
-  // Console listener
-  targetPage.on("console", (msg) => {
-    if (consoleLogs.length >= MAX_CONSOLE_LOGS) {
-      consoleLogs.shift();
+  {
+    name: ToolName.BrowserSnapshot,
+    description: "Capture an accessibility snapshot of the active tab as a compact outline (role, name, value, state), iframes included. Visible elements carry a ref (e.g. e42, or f1e42 inside an iframe) that can be passed as `ref` to browser_click, browser_fill, browser_select and browser_hover. Refs from the latest snapshot of a frame stay valid",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to snapshot (default: whole page)"
+        },
+        interactiveOnly: {
+          type: "boolean",
+          description: "Only list interactive elements, without the page structure (default: false)"
+        }
+      },
+      required: []
     }
-    const entry: ConsoleLogEntry = {
-      timestamp: Date.now(),
-      type: msg.type(),
-      text: msg.text()
-    };
-    consoleLogs.push(entry);
-    server.notification({
-      method: "notifications/resources/updated",
-      params: { uri: "console://logs" },
-    });
-  });
-
-  // Request listener - capture outgoing requests
-  targetPage.on("request", (request) => {
-    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const key = request.url() + request.method();
-    pendingRequests.set(key, { startTime: Date.now(), id });
-
-    if (networkLogs.length >= MAX_NETWORK_LOGS) {
-      networkLogs.shift();
+  },
+  {
+    name: ToolName.BrowserRoute,
+    description: "Intercept requests matching a URL pattern in the current browser context and fulfill them with a canned response, abort them, or continue them with modified headers. Routes apply to all tabs, including ones opened later. Returns the route ID.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "URL glob pattern (e.g., '**/api/orders*') or regular expression when regex is true"
+        },
+        regex: {
+          type: "boolean",
+          description: "Treat url as a regular expression (default: false)"
+        },
+        action: {
+          type: "string",
+          enum: ["fulfill", "abort", "continue"],
+          description: "What to do with matching requests (default: fulfill)"
+        },
+        status: {
+          type: "number",
+          description: "Response status code for fulfill (default: 200)"
+        },
+        headers: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Response headers for fulfill, or request headers to add/override for continue"
+        },
+        contentType: {
+          type: "string",
+          description: "Response Content-Type for fulfill"
+        },
+        body: {
+          type: "string",
+          description: "Inline response body for fulfill"
+        },
+        path: {
+          type: "string",
+          description: "File in the upload directory to serve as the response body for fulfill (alternative to body)"
+        },
+        errorCode: {
+          type: "string",
+          enum: [
+            "aborted", "accessdenied", "addressunreachable", "blockedbyclient", "blockedbyresponse",
+            "connectionaborted", "connectionclosed", "connectionfailed", "connectionrefused",
+            "connectionreset", "internetdisconnected", "namenotresolved", "timedout", "failed"
+          ],
+          description: "Network error code for abort (default: failed)"
+        },
+        delay: {
+          type: "number",
+          description: "Delay in milliseconds before handling matching requests"
+        },
+        times: {
+          type: "number",
+          description: "Only handle this many matching requests, then remove the route"
+        }
+      },
+      required: ["url"]
     }
-    const entry: NetworkLogEntry = {
-      id,
-      timestamp: Date.now(),
-      type: 'request',
-      url: request.url(),
-      method: request.method(),
-      resourceType: request.resourceType()
-    };
-    networkLogs.push(entry);
-  });
-
-  // Response listener - capture responses
-  targetPage.on("response", (response) => {
-    const request = response.request();
-    const key = request.url() + request.method();
-    const pending = pendingRequests.get(key);
-
-    if (networkLogs.length >= MAX_NETWORK_LOGS) {
-      networkLogs.shift();
+  },
+  {
+    name: ToolName.BrowserUnroute,
+    description: "Remove a request route by its ID, or all routes if no ID is given",
+    inputSchema: {
+      type: "object",
+      properties: {
+        routeId: {
+          type: "string",
+          description: "The ID of the route to remove (removes all routes if not specified)"
+        }
+      },
+      required: []
     }
-    const entry: NetworkLogEntry = {
-      id: pending?.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: Date.now(),
-      type: 'response',
-      url: request.url(),
-      method: request.method(),
-      resourceType: request.resourceType(),
-      status: response.status(),
-      statusText: response.statusText(),
-      duration: pending ? Date.now() - pending.startTime : undefined
-    };
-    networkLogs.push(entry);
-    pendingRequests.delete(key);
-  });
-
-  // Request failed listener
-  targetPage.on("requestfailed", (request) => {
-    const key = request.url() + request.method();
-    const pending = pendingRequests.get(key);
-    const failure = request.failure();
-
-    if (networkLogs.length >= MAX_NETWORK_LOGS) {
-      networkLogs.shift();
+  },
+  {
+    name: ToolName.BrowserListRoutes,
+    description: "List active request routes with their patterns, actions and hit counts",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: []
     }
-    const entry: NetworkLogEntry = {
-      id: pending?.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: Date.now(),
-      type: 'requestfailed',
-      url: request.url(),
-      method: request.method(),
-      resourceType: request.resourceType(),
-      errorText: failure?.errorText || 'Unknown error',
-      duration: pending ? Date.now() - pending.startTime : undefined
-    };
-    networkLogs.push(entry);
-    pendingRequests.delete(key);
-  });
-}
-
-async function closeBrowser() {
-  // Close all tabs
-  for (const [tabId, tabInfo] of tabs) {
-    try { await tabInfo.page.close(); } catch {}
-  }
-  tabs.clear();
-  activeTabId = undefined;
-  tabCounter = 0;
-
-  if (context) {
-    try { await context.close(); } catch {}
-    context = undefined;
-  }
-  if (browser) {
-    try { await browser.close(); } catch {}
-    browser = undefined;
-  }
-
-  // Clear logs on browser close
-  consoleLogs.length = 0;
-  networkLogs.length = 0;
-  pendingRequests.clear();
-}
-
-async function ensureBrowser(): Promise<Page> {
-  if (!browser) {
-    browser = await playwright.chromium.launch({ headless: false });
-    context = await browser.newContext();
-  }
-
-  // If no tabs exist, create one
-  if (tabs.size === 0) {
-    const page = await context!.newPage();
-    const tabId = generateTabId();
-    tabs.set(tabId, { page, id: tabId });
-    activeTabId = tabId;
-    attachPageListeners(page);
-  }
-
-  return getActivePage()!;
-}
-
-async function handleToolCall(name: ToolName, args: any): Promise<CallToolResult> {
-  // Handle browser lifecycle tools first (don't need ensureBrowser)
-  switch (name) {
-    case ToolName.BrowserLaunch: {
-      await closeBrowser();
-
-      const browserType = args.browserType || "chromium";
-      const headless = args.headless ?? false;
-      const cdpEndpoint = args.cdpEndpoint;
-      const debugPort = args.debugPort;
-
-      // Validate CDP only works with chromium
-      if (cdpEndpoint && browserType !== "chromium") {
-        return {
-          content: [{ type: "text", text: "CDP connection only works with chromium" }],
-          isError: true
-        };
-      }
-
-      // Validate debugPort cannot be used with cdpEndpoint
-      if (debugPort && cdpEndpoint) {
-        return {
-          content: [{ type: "text", text: "debugPort cannot be used with cdpEndpoint (connecting to existing browser)" }],
-          isError: true
-        };
-      }
-
-      // Validate debugPort only works with chromium
-      if (debugPort && browserType !== "chromium") {
-        return {
-          content: [{ type: "text", text: "debugPort only works with chromium browser type" }],
-          isError: true
-        };
-      }
-
-      try {
-        // Handle cdpEndpoint path - connect to existing browser
-        if (cdpEndpoint) {
-          browser = await chromium.connectOverCDP(cdpEndpoint);
-          const contexts = browser.contexts();
-          context = contexts.length > 0 ? contexts[0] : await browser.newContext();
-        } else {
-          // Handle normal Playwright launch
-          const launchOptions: any = { headless };
+  },
+  {
+    name: ToolName.BrowserSessionCreate,
+    description: "Create a named, isolated browser session with its own context (cookies, storage), tabs, logs and screenshots",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Session name (letters, digits, '.', '_' and '-')"
+        },
+        switch: {
+          type: "boolean",
+          description: "Make the new session the active one (default: true)"
+        },
+        shareBrowser: {
+          type: "boolean",
+          description: "Open the session's context in the active session's browser instead of launching a new one on first use (default: true)"
+        }
+      },
+      required: ["name"]
+    }
+  },
+  {
+    name: ToolName.BrowserSessionList,
+    description: "List browser sessions with their tabs and which one is active",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserSessionSwitch,
+    description: "Switch the active browser session. Tools without a session argument run against the active session.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "The name of the session to switch to"
+        }
+      },
+      required: ["name"]
+    }
+  },
+  {
+    name: ToolName.BrowserSessionClose,
+    description: "Close a browser session and its context. Closing the default session closes its browser but keeps the session.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "The name of the session to close (defaults to active session if not specified)"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserSaveStorageState,
+    description: "Save the session's cookies, localStorage and IndexedDB to a named storage state file so a logged-in state can be reused later",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the storage state"
+        },
+        indexedDB: {
+          type: "boolean",
+          description: "Include IndexedDB contents (default: true)"
+        }
+      },
+      required: ["name"]
+    }
+  },
+  {
+    name: ToolName.BrowserLoadStorageState,
+    description: "Replace the session's cookies, localStorage and IndexedDB with a saved storage state. Reload or navigate open tabs to pick it up.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of a storage state saved with browser_save_storage_state"
+        }
+      },
+      required: ["name"]
+    }
+  },
+  {
+    name: ToolName.BrowserGetCookies,
+    description: "List cookies of the session's browser context, including httpOnly cookies, with their flags and expiry",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urls: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only return cookies that would be sent to these URLs"
+        },
+        domain: {
+          type: "string",
+          description: "Filter by domain (matches the domain and its subdomains)"
+        },
+        name: {
+          type: "string",
+          description: "Filter by cookie name"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserSetCookies,
+    description: "Add or overwrite cookies in the session's browser context",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cookies: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              value: { type: "string" },
+              url: { type: "string", description: "URL the cookie applies to (alternative to domain and path)" },
+              domain: { type: "string" },
+              path: { type: "string" },
+              expires: { type: "number", description: "Unix time in seconds (omit for a session cookie)" },
+              httpOnly: { type: "boolean" },
+              secure: { type: "boolean" },
+              sameSite: { type: "string", enum: ["Strict", "Lax", "None"] }
+            },
+            required: ["name", "value"]
+          },
+          description: "Cookies to set; each needs either url or domain and path"
+        }
+      },
+      required: ["cookies"]
+    }
+  },
+  {
+    name: ToolName.BrowserClearCookies,
+    description: "Remove cookies from the session's browser context, optionally only those matching a name, domain or path",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Only remove cookies with this name"
+        },
+        domain: {
+          type: "string",
+          description: "Only remove cookies for this domain and its subdomains, like browser_get_cookies"
+        },
+        path: {
+          type: "string",
+          description: "Only remove cookies with this path"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserUpload,
+    description: "Upload files through an <input type=file>, or through the file chooser opened by clicking the target element. Files must be inside the server's upload directory.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector for the file input or the element that opens the file chooser" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
+        paths: {
+          type: "array",
+          items: { type: "string" },
+          description: "Files to upload, relative to the upload directory (an empty list clears the selection)"
+        }
+      },
+      required: ["paths"]
+    }
+  },
+  {
+    name: ToolName.BrowserListDownloads,
+    description: "List files downloaded by the session. Each completed download is available as a download://<id> resource.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserSetDialogPolicy,
+    description: "Set how the session handles alert, confirm, prompt and beforeunload dialogs: accept or dismiss them automatically, or hold them for browser_handle_dialog. Every dialog is recorded in the console log.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        policy: {
+          type: "string",
+          enum: ["accept", "dismiss", "hold"],
+          description: "Dialog policy (default for new sessions: dismiss)"
+        },
+        promptText: {
+          type: "string",
+          description: "Answer to give prompt dialogs when the policy is accept"
+        }
+      },
+      required: ["policy"]
+    }
+  },
+  {
+    name: ToolName.BrowserHandleDialog,
+    description: "Accept or dismiss a dialog held by the 'hold' dialog policy. A tool call that opens a held dialog returns right away with the dialog's ID; until the dialog is handled, the page is blocked.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["accept", "dismiss"],
+          description: "Whether to accept or dismiss the dialog"
+        },
+        promptText: {
+          type: "string",
+          description: "Answer to give a prompt dialog when accepting"
+        },
+        dialogId: {
+          type: "string",
+          description: "The ID of the dialog to handle (defaults to the oldest pending dialog)"
+        }
+      },
+      required: ["action"]
+    }
+  },
+  {
+    name: ToolName.BrowserPressKey,
+    description: "Press a key or key combination (e.g. Enter, ArrowDown, Control+Shift+K) on a focused element or the page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: {
+          type: "string",
+          description: "Key or chord to press, using Playwright key names (e.g. 'Escape', 'Shift+Tab', 'Meta+A')"
+        },
+        selector: { type: "string", description: "CSS selector for element to focus first (default: the page's focused element)" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
+        count: {
+          type: "number",
+          description: "Number of times to press the key (default: 1)"
+        }
+      },
+      required: ["key"]
+    }
+  },
+  {
+    name: ToolName.BrowserType,
+    description: "Type text key by key into an element or the focused element, firing keyboard events for each character",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: { type: "string", description: "Text to type" },
+        selector: { type: "string", description: "CSS selector for element to type into (default: the page's focused element)" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
+        delay: {
+          type: "number",
+          description: "Delay between key presses in milliseconds (default: 0)"
+        },
+        submit: {
+          type: "boolean",
+          description: "Press Enter after typing (default: false)"
+        }
+      },
+      required: ["text"]
+    }
+  },
+  {
+    name: ToolName.BrowserMouse,
+    description: "Move the mouse or click at page coordinates, or at coordinates relative to an element's top-left corner (its center if x and y are omitted)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["move", "click", "double_click", "right_click", "down", "up"],
+          description: "Mouse action to perform"
+        },
+        x: { type: "number", description: "X coordinate in CSS pixels" },
+        y: { type: "number", description: "Y coordinate in CSS pixels" },
+        selector: { type: "string", description: "CSS selector for element the coordinates are relative to" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
+        button: {
+          type: "string",
+          enum: ["left", "middle", "right"],
+          description: "Mouse button for click, down and up (default: left)"
+        }
+      },
+      required: ["action"]
+    }
+  },
+  {
+    name: ToolName.BrowserDrag,
+    description: "Drag one element and drop it onto another",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sourceSelector: { type: "string", description: "CSS selector for element to drag" },
+        sourceRef: { type: "string", description: "Element ref from browser_snapshot for element to drag" },
+        targetSelector: { type: "string", description: "CSS selector for element to drop onto" },
+        targetRef: { type: "string", description: "Element ref from browser_snapshot for element to drop onto" },
+        sourceLocator: { ...LOCATOR_SCHEMA, description: "Locator of the element to drag (alternative to sourceSelector)" },
+        targetLocator: { ...LOCATOR_SCHEMA, description: "Locator of the element to drop onto (alternative to targetSelector)" }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserScroll,
+    description: "Scroll the page or an element by a pixel amount, or scroll an element into view",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector for element to scroll (scrolled into view when no delta is given)" },
+        ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+        locator: LOCATOR_SCHEMA,
+        deltaX: { type: "number", description: "Horizontal scroll amount in pixels" },
+        deltaY: { type: "number", description: "Vertical scroll amount in pixels (negative scrolls up)" }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserExportScript,
+    description: "Export the session's successful interactions (navigate, click, fill, select, hover, keyboard, drag and waits) since the session's browser was started as a runnable @playwright/test spec or plain Playwright script",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          enum: ["test", "script"],
+          description: "'test' for a @playwright/test spec, 'script' for a plain Playwright script (default: test)"
+        },
+        testName: {
+          type: "string",
+          description: "Name of the generated test (default: recorded session)"
+        },
+        clear: {
+          type: "boolean",
+          description: "Clear the recorded interactions after exporting (default: false)"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserTraceStart,
+    description: "Start recording a Playwright trace of the current session's browser context. Stop it with browser_trace_stop to get a trace archive for the Playwright trace viewer.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the trace, used for the trace://<name> resource (default: trace-<timestamp>)"
+        },
+        title: {
+          type: "string",
+          description: "Title shown in the trace viewer"
+        },
+        screenshots: {
+          type: "boolean",
+          description: "Capture screenshots during tracing (default: true)"
+        },
+        snapshots: {
+          type: "boolean",
+          description: "Capture DOM snapshots on every action (default: true)"
+        },
+        sources: {
+          type: "boolean",
+          description: "Include source files for trace actions (default: true)"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserTraceStop,
+    description: "Stop the trace started with browser_trace_start and save it as a trace://<name> resource. Closing the browser also saves an active trace.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserGetVideo,
+    description: "Get the path of a tab's video recording (requires browser_launch recordVideo). Videos are only complete once their tab closes; pass close to finalize the recording of an open tab.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: {
+          type: "string",
+          description: "Tab to get the video of (default: active tab)"
+        },
+        close: {
+          type: "boolean",
+          description: "Close the tab if it is still open to finalize its video (default: false)"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserPdf,
+    description: "Render the current page as a PDF (Chromium only) and store it as a pdf://<name> resource",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Name for the PDF" },
+        format: {
+          type: "string",
+          description: "Paper format such as Letter, Legal, A3, A4 or A5 (default: Letter)"
+        },
+        width: { type: "string", description: "Paper width with units, e.g. '8.5in' (overrides format)" },
+        height: { type: "string", description: "Paper height with units, e.g. '11in' (overrides format)" },
+        margin: {
+          type: "object",
+          properties: {
+            top: { type: "string" },
+            right: { type: "string" },
+            bottom: { type: "string" },
+            left: { type: "string" }
+          },
+          description: "Paper margins with units, e.g. '1cm'"
+        },
+        landscape: { type: "boolean", description: "Landscape orientation (default: false)" },
+        printBackground: { type: "boolean", description: "Print background graphics (default: false)" },
+        headerTemplate: {
+          type: "string",
+          description: "HTML template for the print header; may use the date, title, url, pageNumber and totalPages classes"
+        },
+        footerTemplate: {
+          type: "string",
+          description: "HTML template for the print footer, same format as headerTemplate"
+        },
+        pageRanges: { type: "string", description: "Pages to print, e.g. '1-5, 8'" },
+        scale: { type: "number", description: "Rendering scale between 0.1 and 2 (default: 1)" },
+        save: {
+          type: "boolean",
+          description: "Also write the PDF to <name>.pdf in the server's output directory (default: false)"
+        }
+      },
+      required: ["name"]
+    }
+  },
+  {
+    name: ToolName.BrowserCompareScreenshots,
+    description: "Compare two screenshots pixel by pixel and return the changed-pixel percentage, the bounding boxes of changed regions and a diff image highlighting the changes in red",
+    inputSchema: {
+      type: "object",
+      properties: {
+        baseline: {
+          type: "string",
+          description: "Name of the stored screenshot to compare against"
+        },
+        baselineFile: {
+          type: "string",
+          description: "Image file in the server's upload directory to compare against (alternative to baseline)"
+        },
+        current: {
+          type: "string",
+          description: "Name of the stored screenshot to compare. If omitted, a fresh screenshot of the current page is taken with the capture options of the baseline"
+        },
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to capture when taking a fresh screenshot"
+        },
+        fullPage: {
+          type: "boolean",
+          description: "Capture the full page when taking a fresh screenshot (default: false)"
+        },
+        threshold: {
+          type: "number",
+          description: "Per-pixel color difference (0-1) tolerated before a pixel counts as changed (default: 0.1)"
+        },
+        diffName: {
+          type: "string",
+          description: "Store the diff image as a screenshot with this name (a suffix like -2 is added if the name is taken)"
+        },
+        overwrite: {
+          type: "boolean",
+          description: "Replace an existing screenshot named diffName instead of picking a new name (default: false)"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserListScreenshots,
+    description: "List the session's stored screenshots with their metadata (tab, URL, timestamp, dimensions, size)",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserDeleteScreenshot,
+    description: "Delete a stored screenshot, or all of the session's screenshots",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the screenshot to delete"
+        },
+        all: {
+          type: "boolean",
+          description: "Delete all of the session's screenshots (default: false)"
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserGetContent,
+    description: "Get the readable content of the active tab as Markdown or plain text. Navigation, headers, footers, scripts and hidden elements are left out and links are kept. Large pages are returned in chunks; use offset to read further.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to get the content of (default: whole page)"
+        },
+        format: {
+          type: "string",
+          enum: ["markdown", "text"],
+          description: "Output format (default: markdown)"
+        },
+        includeBoilerplate: {
+          type: "boolean",
+          description: "Keep navigation, page headers, footers and sidebars (default: false)"
+        },
+        offset: {
+          type: "number",
+          description: "Character offset to start from (default: 0)"
+        },
+        maxLength: {
+          type: "number",
+          description: `Maximum number of characters to return (default: ${DEFAULT_CONTENT_LENGTH}, max: ${MAX_CONTENT_LENGTH})`
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserExtract,
+    description: "Extract structured data from the active tab as JSON: either one object per element matching rowSelector with the given fields, or all tables or lists. Optionally follows a 'next' button to collect data from every page.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        rowSelector: {
+          type: "string",
+          description: "CSS selector matching one element per row (e.g. 'table.orders tbody tr')"
+        },
+        fields: {
+          type: "object",
+          additionalProperties: {
+            oneOf: [
+              { type: "string" },
+              {
+                type: "object",
+                properties: {
+                  selector: { type: "string", description: "CSS selector within the row (default: the row itself)" },
+                  attribute: { type: "string", description: "Attribute to read instead of the text (href and src are made absolute)" },
+                  html: { type: "boolean", description: "Read the inner HTML instead of the text" },
+                  all: { type: "boolean", description: "Return an array with the value of every match" }
+                }
+              }
+            ]
+          },
+          description: "Map of field names to a CSS selector within the row, 'selector@attribute' to read an attribute, or an options object. Missing values are null."
+        },
+        mode: {
+          type: "string",
+          enum: ["rows", "tables", "lists"],
+          description: "'tables' or 'lists' extracts every visible table or list instead of rows (default: rows)"
+        },
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to extract from (default: whole page)"
+        },
+        nextSelector: {
+          type: "string",
+          description: "CSS selector of the 'next page' control. It is clicked after each page until it disappears, is disabled, the data stops changing or maxPages is reached"
+        },
+        maxPages: {
+          type: "number",
+          description: `Maximum number of pages to extract when paginating (default: ${DEFAULT_EXTRACT_PAGES})`
+        },
+        maxRows: {
+          type: "number",
+          description: `Maximum number of rows to return (default: ${DEFAULT_EXTRACT_ROWS})`
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: ToolName.BrowserFillForm,
+    description: "Fill several form fields in one call and report the result of each field. Text-like fields are filled instantly rather than typed character by character.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        fields: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              selector: { type: "string", description: "CSS selector of the field" },
+              ref: { type: "string", description: "Element ref from browser_snapshot (alternative to selector)" },
+              locator: LOCATOR_SCHEMA,
+              value: {
+                oneOf: [
+                  { type: "string" },
+                  { type: "number" },
+                  { type: "boolean" },
+                  { type: "array", items: { type: "string" } }
+                ],
+                description: "Value to set: text, true/false for checkboxes, the value or label of the option for radios and selects (an array for multi-selects), ISO format for date/time inputs"
+              },
+              kind: {
+                type: "string",
+                enum: ["auto", "text", "textarea", "checkbox", "radio", "select", "date", "range", "contenteditable"],
+                description: "Kind of field (default: auto, detected from the element)"
+              }
+            },
+            required: ["value"]
+          },
+          description: "Fields to fill, in order"
+        },
+        stopOnError: {
+          type: "boolean",
+          description: "Stop at the first field that fails instead of continuing with the rest (default: false)"
+        }
+      },
+      required: ["fields"]
+    }
+  },
+  {
+    name: ToolName.BrowserListFrames,
+    description: "List the frames of the current page with their name, URL, parent frame and bounding box, to target them with the frame argument",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: []
+    }
+  },
+];
+
+const SESSION_TOOLS: string[] = [
+  ToolName.BrowserSessionCreate,
+  ToolName.BrowserSessionList,
+  ToolName.BrowserSessionSwitch,
+  ToolName.BrowserSessionClose,
+];
+
+// Text tools run as their locator-based tool with a literal text locator
+const TEXT_TOOLS: string[] = [
+  ToolName.BrowserClickText,
+  ToolName.BrowserSelectText,
+  ToolName.BrowserHoverText,
+];
+
+const FRAME_TOOLS: string[] = [
+  ToolName.BrowserScreenshot,
+  ToolName.BrowserClick,
+  ToolName.BrowserClickText,
+  ToolName.BrowserFill,
+  ToolName.BrowserSelect,
+  ToolName.BrowserSelectText,
+  ToolName.BrowserHover,
+  ToolName.BrowserHoverText,
+  ToolName.BrowserEvaluate,
+  ToolName.BrowserWaitForSelector,
+  ToolName.BrowserWaitForLoadState,
+  ToolName.BrowserWaitForUrl,
+  ToolName.BrowserWaitForFunction,
+  ToolName.BrowserSnapshot,
+  ToolName.BrowserUpload,
+  ToolName.BrowserPressKey,
+  ToolName.BrowserType,
+  ToolName.BrowserMouse,
+  ToolName.BrowserDrag,
+  ToolName.BrowserScroll,
+  ToolName.BrowserGetContent,
+  ToolName.BrowserExtract,
+  ToolName.BrowserFillForm,
+];
+
+// Tools whose page actions can open a dialog
+const DIALOG_TOOLS: string[] = [
+  ToolName.BrowserNavigate,
+  ToolName.BrowserClick,
+  ToolName.BrowserClickText,
+  ToolName.BrowserFill,
+  ToolName.BrowserSelect,
+  ToolName.BrowserSelectText,
+  ToolName.BrowserHover,
+  ToolName.BrowserHoverText,
+  ToolName.BrowserEvaluate,
+  ToolName.BrowserCloseTab,
+  ToolName.BrowserWaitForSelector,
+  ToolName.BrowserWaitForLoadState,
+  ToolName.BrowserWaitForUrl,
+  ToolName.BrowserWaitForFunction,
+  ToolName.BrowserUpload,
+  ToolName.BrowserPressKey,
+  ToolName.BrowserType,
+  ToolName.BrowserMouse,
+  ToolName.BrowserDrag,
+  ToolName.BrowserScroll,
+  ToolName.BrowserFillForm,
+];
+
+// Tools that work with page content can run inside an iframe
+for (const tool of TOOLS) {
+  if (FRAME_TOOLS.includes(tool.name)) {
+    tool.inputSchema.properties = {
+      ...tool.inputSchema.properties,
+      frame: FRAME_SCHEMA,
+    };
+  }
+}
+
+// Every other tool can target a session other than the active one
+for (const tool of TOOLS) {
+  if (!SESSION_TOOLS.includes(tool.name)) {
+    tool.inputSchema.properties = {
+      ...tool.inputSchema.properties,
+      session: {
+        type: "string",
+        description: "Name of the session to run against (defaults to the active session)"
+      },
+    };
+  }
+}
+
+// Tools that target elements choose how to handle a locator matching several elements
+for (const tool of TOOLS) {
+  const properties = tool.inputSchema.properties as Record<string, unknown>;
+  if (properties.locator || properties.sourceLocator || TEXT_TOOLS.includes(tool.name) || tool.name === ToolName.BrowserFillForm) {
+    tool.inputSchema.properties = {
+      ...properties,
+      ambiguity: {
+        type: "string",
+        enum: ["error", "first", "last", "nth"],
+        description: "What to do when the target matches several elements: 'error' lists the candidates, 'first', 'last' or 'nth' (with ambiguityIndex) picks one (default: error, configurable with --ambiguity)"
+      },
+      ambiguityIndex: {
+        type: "number",
+        description: "0-based index of the match to use with ambiguity 'nth' (negative indexes count from the end, -1 is the last; default configurable with --ambiguity-index)"
+      },
+    };
+  }
+}
+
+// Tab tracking interface
+interface TabInfo {
+  page: Page;
+  id: string;
+}
+
+// Download tracking interface
+interface DownloadInfo {
+  id: string;
+  url: string;
+  suggestedFilename: string;
+  tabId?: string;
+  timestamp: number;
+  state: 'in_progress' | 'completed' | 'failed';
+  path?: string;
+  size?: number;
+  error?: string;
+}
+
+// Recorded interaction, rendered against the variable of the tab it ran in
+interface RecordedAction {
+  tabId: string;
+  statement: (pageVar: string) => string;
+}
+
+// Request route tracking interface
+interface RouteRule {
+  id: string;
+  url: string;
+  regex: boolean;
+  action: 'fulfill' | 'abort' | 'continue';
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  path?: string;
+  errorCode?: string;
+  delay?: number;
+  times?: number;
+  hits: number;
+  lastError?: string;
+  matcher: string | RegExp;
+  handler: (route: Route) => Promise<void>;
+}
+
+// Screenshots are kept on disk; only their metadata is held in memory
+interface StoredScreenshot {
+  name: string;
+  path: string;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+  tabId?: string;
+  url?: string;
+  timestamp: number;
+  lastAccessed: number;
+  thumbnailPath?: string;
+  capture?: ScreenshotCaptureOptions;
+}
+
+// Options of browser_screenshot that shape the image, stored with the screenshot so that
+// browser_compare_screenshots can take a matching fresh screenshot
+interface ScreenshotCaptureOptions {
+  selector?: string;
+  frame?: FrameSpec;
+  fullPage?: boolean;
+  clip?: { x: number; y: number; width: number; height: number };
+  mask?: string[];
+  maskColor?: string;
+  omitBackground?: boolean;
+  animations?: "disabled" | "allow";
+  grayscale?: boolean;
+  maxWidth?: number;
+  maxHeight?: number;
+  format?: "png" | "jpeg" | "webp";
+  quality?: number;
+}
+
+// A dialog held by the 'hold' policy until browser_handle_dialog answers it
+interface PendingDialog {
+  id: string;
+  tabId?: string;
+  dialog: Dialog;
+}
+
+// Browser session state: each session has its own context, tabs, logs and screenshots
+interface Session {
+  name: string;
+  browser?: Browser;
+  context?: BrowserContext;
+  tabs: Map<string, TabInfo>;
+  activeTabId?: string;
+  tabCounter: number;
+  consoleLogs: ConsoleLogEntry[];
+  networkLogs: NetworkLogEntry[];
+  networkObjects: Map<string, { request: Request; response?: Response }>;
+  screenshots: Map<string, StoredScreenshot>;
+  pdfs: Map<string, string>; // name -> file path
+  routes: Map<string, RouteRule>;
+  routeCounter: number;
+  harRecording?: { name: string; path: string };
+  tracing?: { name: string; path: string };
+  videos: Map<string, { video: Video; path?: string }>;
+  downloads: Map<string, DownloadInfo>;
+  dialogPolicy: 'accept' | 'dismiss' | 'hold';
+  dialogPromptText?: string;
+  pendingDialogs: Map<string, PendingDialog>;
+  dialogCounter: number;
+  dialogWaiters: Set<(pending: PendingDialog) => void>;
+  recordedActions: RecordedAction[];
+}
+
+const DEFAULT_SESSION = "default";
+
+function createSession(name: string): Session {
+  return {
+    name,
+    tabs: new Map(),
+    tabCounter: 0,
+    consoleLogs: [],
+    networkLogs: [],
+    networkObjects: new Map(),
+    screenshots: new Map(),
+    pdfs: new Map(),
+    routes: new Map(),
+    routeCounter: 0,
+    downloads: new Map(),
+    dialogPolicy: 'dismiss',
+    pendingDialogs: new Map(),
+    dialogCounter: 0,
+    dialogWaiters: new Set(),
+    recordedActions: [],
+    videos: new Map(),
+  };
+}
+
+// Global state
+const sessions = new Map<string, Session>([[DEFAULT_SESSION, createSession(DEFAULT_SESSION)]]);
+// Sessions are shared, but every connected client switches between them on its own
+interface ClientState {
+  activeSessionName: string;
+}
+const clients = new Set<ClientState>();
+// Keyed by the Playwright Request object so concurrent identical requests stay separate
+const pendingRequests = new WeakMap<Request, PendingRequest>();
+const harFiles = new Map<string, string>();
+const traceFiles = new Map<string, string>();
+let downloadCounter = 0;
+
+// Helper to get the file of a named storage state
+function getStorageStatePath(name: string): string {
+  return path.join(config.stateDir, `${name.replace(/[^\w.-]/g, "_")}.json`);
+}
+
+// Helper to resolve an upload path, rejecting files outside the upload directory
+async function resolveUploadPath(file: string): Promise<string> {
+  await fs.mkdir(config.uploadDir, { recursive: true });
+  const uploadDir = await fs.realpath(config.uploadDir);
+  let resolved: string;
+  try {
+    resolved = await fs.realpath(path.resolve(uploadDir, file));
+  } catch {
+    throw new Error(`File not found: ${file}`);
+  }
+  const relative = path.relative(uploadDir, resolved);
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`File ${file} is outside the upload directory ${uploadDir}`);
+  }
+  return resolved;
+}
+
+// Helper to match cookies of a domain and its subdomains, with or without a leading dot
+function getCookieDomainPattern(domain: string): RegExp {
+  const escaped = domain.replace(/^\./, "").replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^\\.?(.+\\.)?${escaped}$`, "i");
+}
+
+// Helper to guess the MIME type of a saved file
+function getMimeType(filePath: string): string {
+  const mimeTypes: Record<string, string> = {
+    ".csv": "text/csv",
+    ".txt": "text/plain",
+    ".json": "application/json",
+    ".xml": "application/xml",
+    ".html": "text/html",
+    ".pdf": "application/pdf",
+    ".zip": "application/zip",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  };
+  return mimeTypes[path.extname(filePath).toLowerCase()] || "application/octet-stream";
+}
+
+// Bounding box of screenshot thumbnails
+const THUMBNAIL_SIZE = 256;
+
+// Helper to get the directory a session's screenshots are stored in
+function getScreenshotDir(session: Session): string {
+  return path.join(config.screenshotsDir, session.name);
+}
+
+// Helper to get the directory where a session's rendered PDFs are kept
+function getPdfDir(session: Session): string {
+  return path.join(config.outputDir, "pdfs", session.name);
+}
+
+// Last index.json write of each screenshot directory, so that concurrent writes run one after another
+const screenshotIndexWrites = new Map<string, Promise<void>>();
+
+// Helper to write the index.json of a screenshot directory. The entries are read once
+// the previous write has finished, so the last write always holds the latest metadata.
+function writeScreenshotIndex(dir: string, getScreenshots: () => StoredScreenshot[]): Promise<void> {
+  const previous = screenshotIndexWrites.get(dir) ?? Promise.resolve();
+  const write = previous.catch(() => {}).then(async () => {
+    const indexPath = path.join(dir, "index.json");
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(getScreenshots(), null, 2));
+    await fs.rename(`${indexPath}.tmp`, indexPath);
+  });
+  screenshotIndexWrites.set(dir, write);
+  return write;
+}
+
+// Helper to persist the metadata of a session's screenshots next to the files
+function saveScreenshotIndex(session: Session): Promise<void> {
+  return writeScreenshotIndex(getScreenshotDir(session), () => Array.from(session.screenshots.values()));
+}
+
+// Helper to read the index.json of a screenshot directory
+async function readScreenshotIndex(dir: string): Promise<StoredScreenshot[]> {
+  await screenshotIndexWrites.get(dir)?.catch(() => {});
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, "index.json"), "utf-8"));
+  } catch {
+    return [];
+  }
+}
+
+// Helper to restore the screenshots a session stored before the server restarted
+async function loadScreenshotIndex(session: Session) {
+  for (const screenshot of await readScreenshotIndex(getScreenshotDir(session))) {
+    try {
+      await fs.access(screenshot.path);
+      session.screenshots.set(screenshot.name, screenshot);
+    } catch {}
+  }
+}
+
+// Helper to pick a screenshot name that doesn't replace an existing one
+function getUniqueScreenshotName(session: Session, name: string): string {
+  let uniqueName = name;
+  for (let i = 2; session.screenshots.has(uniqueName); i++) {
+    uniqueName = `${name}-${i}`;
+  }
+  return uniqueName;
+}
+
+// Helper to write a screenshot to the store, replacing any screenshot with the same name
+async function storeScreenshot(
+  session: Session,
+  name: string,
+  image: Buffer,
+  mimeType: string,
+  details: { tabId?: string; url?: string; thumbnail?: boolean; capture?: ScreenshotCaptureOptions }
+): Promise<StoredScreenshot> {
+  const dir = getScreenshotDir(session);
+  const fileName = encodeURIComponent(name);
+  await fs.mkdir(dir, { recursive: true });
+  await removeScreenshotFiles(session.screenshots.get(name));
+
+  const filePath = path.join(dir, `${fileName}.${mimeType.split("/")[1]}`);
+  await fs.writeFile(filePath, image);
+
+  let thumbnailPath: string | undefined;
+  if (details.thumbnail) {
+    thumbnailPath = path.join(dir, `${fileName}.thumbnail.png`);
+    await sharp(image)
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: "inside", withoutEnlargement: true })
+      .png()
+      .toFile(thumbnailPath);
+  }
+
+  const { width, height } = await sharp(image).metadata();
+  const screenshot: StoredScreenshot = {
+    name,
+    path: filePath,
+    mimeType,
+    size: image.length,
+    width: width!,
+    height: height!,
+    tabId: details.tabId,
+    url: details.url,
+    timestamp: Date.now(),
+    lastAccessed: Date.now(),
+    thumbnailPath,
+    capture: details.capture,
+  };
+  session.screenshots.set(name, screenshot);
+
+  await enforceScreenshotLimits();
+  await saveScreenshotIndex(session);
+  notifyClients({
+    method: "notifications/resources/list_changed",
+  });
+  return screenshot;
+}
+
+// Helper to read a stored screenshot (or its thumbnail), marking it as recently used
+async function readScreenshot(session: Session, name: string, thumbnail = false): Promise<Buffer | undefined> {
+  const screenshot = session.screenshots.get(name);
+  const filePath = thumbnail ? screenshot?.thumbnailPath : screenshot?.path;
+  if (!screenshot || !filePath) {
+    return undefined;
+  }
+  const image = await fs.readFile(filePath);
+  screenshot.lastAccessed = Date.now();
+  await saveScreenshotIndex(session).catch(() => {});
+  return image;
+}
+
+// Helper to remove the files of a stored screenshot
+async function removeScreenshotFiles(screenshot?: StoredScreenshot) {
+  if (!screenshot) return;
+  try { await fs.unlink(screenshot.path); } catch {}
+  if (screenshot.thumbnailPath) {
+    try { await fs.unlink(screenshot.thumbnailPath); } catch {}
+  }
+}
+
+// Helper to delete stored screenshots of a session
+async function deleteScreenshots(session: Session, names: string[]) {
+  for (const name of names) {
+    await removeScreenshotFiles(session.screenshots.get(name));
+    session.screenshots.delete(name);
+  }
+  await saveScreenshotIndex(session);
+  notifyClients({
+    method: "notifications/resources/list_changed",
+  });
+}
+
+// Helper to evict the least recently used screenshots once the store exceeds its limits. Screenshots
+// of every session directory count, including sessions that are closed or not created since a restart.
+async function enforceScreenshotLimits() {
+  const openSessions = new Map(Array.from(sessions.values(), session => [getScreenshotDir(session), session]));
+  const closedSessions = new Map<string, StoredScreenshot[]>();
+  const stored: { dir: string; screenshot: StoredScreenshot }[] = [];
+  for (const [dir, session] of openSessions) {
+    stored.push(...Array.from(session.screenshots.values(), screenshot => ({ dir, screenshot })));
+  }
+
+  let entries: string[] = [];
+  try {
+    entries = await fs.readdir(config.screenshotsDir);
+  } catch {}
+  for (const entry of entries) {
+    const dir = path.join(config.screenshotsDir, entry);
+    if (openSessions.has(dir)) continue;
+    const screenshots = await readScreenshotIndex(dir);
+    closedSessions.set(dir, screenshots);
+    stored.push(...screenshots.map(screenshot => ({ dir, screenshot })));
+  }
+
+  stored.sort((a, b) => a.screenshot.lastAccessed - b.screenshot.lastAccessed);
+  let totalSize = stored.reduce((total, { screenshot }) => total + screenshot.size, 0);
+  let count = stored.length;
+
+  const evictedDirs = new Set<string>();
+  // Always keep the newest screenshot, even if it exceeds the size limit on its own
+  for (const { dir, screenshot } of stored.slice(0, -1)) {
+    if (count <= config.maxScreenshots && totalSize <= config.maxScreenshotBytes) break;
+    await removeScreenshotFiles(screenshot);
+    openSessions.get(dir)?.screenshots.delete(screenshot.name);
+    closedSessions.set(dir, closedSessions.get(dir)?.filter(other => other !== screenshot) ?? []);
+    evictedDirs.add(dir);
+    count--;
+    totalSize -= screenshot.size;
+  }
+  for (const dir of evictedDirs) {
+    const session = openSessions.get(dir);
+    await (session ? saveScreenshotIndex(session) : writeScreenshotIndex(dir, () => closedSessions.get(dir)!));
+  }
+}
+
+// Helper to take a screenshot and convert it to the requested format and size
+async function captureScreenshot(page: Page, options: ScreenshotCaptureOptions): Promise<Buffer> {
+  const frame = await getTargetFrame(page, options);
+  const format = options.format || "png";
+  const quality = options.quality ?? 80;
+  // Capture losslessly and let sharp handle the conversion
+  const captureOptions = {
+    type: "png" as const,
+    mask: options.mask?.map(selector => frame.locator(selector)),
+    maskColor: options.maskColor,
+    omitBackground: options.omitBackground,
+    animations: options.animations,
+  };
+  let screenshot: Buffer;
+  if (options.selector) {
+    screenshot = await frame.locator(options.selector).screenshot(captureOptions);
+  } else if (frame !== page.mainFrame()) {
+    // Without a selector, capture the iframe element showing the frame
+    const frameElement = await frame.frameElement();
+    screenshot = await frameElement.screenshot(captureOptions);
+    await frameElement.dispose();
+  } else {
+    screenshot = await page.screenshot({ ...captureOptions, fullPage: options.fullPage, clip: options.clip });
+  }
+
+  if (options.grayscale || options.maxWidth || options.maxHeight || format !== "png") {
+    let image = sharp(screenshot);
+    // Convert to grayscale if enabled (reduces size by ~76%)
+    if (options.grayscale) {
+      image = image.grayscale();
+    }
+    if (options.maxWidth || options.maxHeight) {
+      image = image.resize({ width: options.maxWidth, height: options.maxHeight, fit: "inside", withoutEnlargement: true });
+    }
+    if (format === "jpeg") {
+      image = image.flatten({ background: "#ffffff" }).jpeg({ quality });
+    } else if (format === "webp") {
+      image = image.webp({ quality });
+    } else {
+      image = image.png();
+    }
+    screenshot = await image.toBuffer();
+  }
+  return screenshot;
+}
+
+// Helper to check whether an image has no color, allowing for compression artifacts
+async function isGrayscaleImage(image: Buffer): Promise<boolean> {
+  const { data, info } = await sharp(image).removeAlpha().toColourspace("srgb").raw().toBuffer({ resolveWithObject: true });
+  for (let i = 0; i < data.length; i += info.channels) {
+    if (Math.abs(data[i] - data[i + 1]) > 8 || Math.abs(data[i + 1] - data[i + 2]) > 8) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helper to bring two screenshots to the same colourspace and scale before diffing them,
+// so that a grayscale or downscaled screenshot doesn't show up as changed everywhere.
+// Without the capture options of both screenshots, grayscale is detected from the pixels.
+async function normalizeImages(baseline: Buffer, current: Buffer, grayscale?: boolean): Promise<[Buffer, Buffer]> {
+  const [baselineMeta, currentMeta] = await Promise.all([sharp(baseline).metadata(), sharp(current).metadata()]);
+  if (grayscale === undefined) {
+    const [baselineGray, currentGray] = await Promise.all([isGrayscaleImage(baseline), isGrayscaleImage(current)]);
+    grayscale = baselineGray !== currentGray;
+  }
+
+  // Scale the larger image down to the smaller one if they show the same area
+  const [smaller, larger] = baselineMeta.width! <= currentMeta.width! ? [baselineMeta, currentMeta] : [currentMeta, baselineMeta];
+  const scale = smaller.width! / larger.width!;
+  const sameArea = scale < 1 && Math.abs(larger.height! * scale - smaller.height!) <= 1;
+
+  const normalize = async (image: Buffer, meta: sharp.Metadata) => {
+    const resize = sameArea && meta === larger;
+    if (!resize && !grayscale) return image;
+    let pipeline = sharp(image);
+    if (resize) pipeline = pipeline.resize(smaller.width, smaller.height, { fit: "fill" });
+    if (grayscale) pipeline = pipeline.grayscale();
+    return pipeline.png().toBuffer();
+  };
+  return Promise.all([normalize(baseline, baselineMeta), normalize(current, currentMeta)]);
+}
+
+interface ImageDiff {
+  width: number;
+  height: number;
+  changedPixels: number;
+  regions: { x: number; y: number; width: number; height: number }[];
+  diffImage: Buffer;
+}
+
+// Size of the grid cells changed pixels are grouped into to find changed regions
+const DIFF_CELL_SIZE = 16;
+const MAX_DIFF_REGIONS = 20;
+
+// Helper to decode an image into RGBA pixels, padded to the given size
+async function decodeImage(image: Buffer, width: number, height: number): Promise<Buffer> {
+  const { data, info } = await sharp(image).toColourspace("srgb").ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  if (info.width === width && info.height === height) {
+    return data;
+  }
+  const padded = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < info.height; y++) {
+    data.copy(padded, y * width * 4, y * info.width * 4, (y + 1) * info.width * 4);
+  }
+  return padded;
+}
+
+// Helper to compute a pixel diff between two images; areas outside the smaller image count as changed
+async function diffImages(baseline: Buffer, current: Buffer, threshold: number): Promise<ImageDiff> {
+  const [baselineMeta, currentMeta] = await Promise.all([sharp(baseline).metadata(), sharp(current).metadata()]);
+  const width = Math.max(baselineMeta.width!, currentMeta.width!);
+  const height = Math.max(baselineMeta.height!, currentMeta.height!);
+  const [before, after] = await Promise.all([decodeImage(baseline, width, height), decodeImage(current, width, height)]);
+
+  const columns = Math.ceil(width / DIFF_CELL_SIZE);
+  const rows = Math.ceil(height / DIFF_CELL_SIZE);
+  const changedCells = new Uint8Array(columns * rows);
+  const diffImage = Buffer.alloc(width * height * 4);
+  let changedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const difference = Math.max(
+        Math.abs(before[i] - after[i]),
+        Math.abs(before[i + 1] - after[i + 1]),
+        Math.abs(before[i + 2] - after[i + 2]),
+        Math.abs(before[i + 3] - after[i + 3]),
+      ) / 255;
+
+      if (difference > threshold) {
+        changedPixels++;
+        changedCells[Math.floor(y / DIFF_CELL_SIZE) * columns + Math.floor(x / DIFF_CELL_SIZE)] = 1;
+        diffImage[i] = 255;
+        diffImage[i + 1] = 0;
+        diffImage[i + 2] = 0;
+      } else {
+        // Unchanged pixels are drawn as a faded grayscale copy of the current image
+        const gray = (after[i] * 0.299 + after[i + 1] * 0.587 + after[i + 2] * 0.114) * after[i + 3] / 255
+          + 255 * (1 - after[i + 3] / 255);
+        diffImage[i] = diffImage[i + 1] = diffImage[i + 2] = 255 - (255 - gray) * 0.3;
+      }
+      diffImage[i + 3] = 255;
+    }
+  }
+
+  // Group neighbouring changed cells into regions
+  const regions: ImageDiff["regions"] = [];
+  const visited = new Uint8Array(columns * rows);
+  for (let start = 0; start < changedCells.length; start++) {
+    if (!changedCells[start] || visited[start]) continue;
+    let [minColumn, minRow, maxColumn, maxRow] = [columns, rows, 0, 0];
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const neighbourColumn = column + dx;
+          const neighbourRow = row + dy;
+          if (neighbourColumn < 0 || neighbourColumn >= columns || neighbourRow < 0 || neighbourRow >= rows) continue;
+          const neighbour = neighbourRow * columns + neighbourColumn;
+          if (changedCells[neighbour] && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+    const x = minColumn * DIFF_CELL_SIZE;
+    const y = minRow * DIFF_CELL_SIZE;
+    regions.push({
+      x,
+      y,
+      width: Math.min((maxColumn + 1) * DIFF_CELL_SIZE, width) - x,
+      height: Math.min((maxRow + 1) * DIFF_CELL_SIZE, height) - y,
+    });
+  }
+  regions.sort((a, b) => b.width * b.height - a.width * a.height);
+
+  return {
+    width,
+    height,
+    changedPixels,
+    regions: regions.slice(0, MAX_DIFF_REGIONS),
+    diffImage: await sharp(diffImage, { raw: { width, height, channels: 4 } }).png().toBuffer(),
+  };
+}
+
+// Helper to save a download into the downloads directory and track it on the session
+async function saveDownload(session: Session, download: Download, tabId?: string) {
+  const id = `download-${++downloadCounter}`;
+  const info: DownloadInfo = {
+    id,
+    url: download.url(),
+    suggestedFilename: download.suggestedFilename(),
+    tabId,
+    timestamp: Date.now(),
+    state: 'in_progress'
+  };
+  session.downloads.set(id, info);
+
+  try {
+    const filePath = path.join(config.downloadsDir, `${id}-${info.suggestedFilename.replace(/[^\w.-]/g, "_")}`);
+    await fs.mkdir(config.downloadsDir, { recursive: true });
+    await download.saveAs(filePath);
+    info.path = filePath;
+    info.size = (await fs.stat(filePath)).size;
+    info.state = 'completed';
+    notifyClients({
+      method: "notifications/resources/list_changed",
+    });
+  } catch (error) {
+    info.state = 'failed';
+    info.error = (await download.failure().catch(() => null)) || (error as Error).message;
+  }
+}
+
+// Helper to build a resource URI; resources of non-default sessions carry a session query
+function sessionUri(session: Session, uri: string): string {
+  return session.name === DEFAULT_SESSION ? uri : `${uri}?session=${encodeURIComponent(session.name)}`;
+}
+
+// Helper to get active page
+function getActivePage(session: Session): Page | undefined {
+  if (!session.activeTabId) return undefined;
+  const tab = session.tabs.get(session.activeTabId);
+  return tab?.page;
+}
+
+// Helper to generate tab ID
+function generateTabId(session: Session): string {
+  return `tab-${++session.tabCounter}`;
+}
+
+// Helper to look up (or start tracking) the shared ID of a request
+function getPendingRequest(request: Request): PendingRequest {
+  let pending = pendingRequests.get(request);
+  if (!pending) {
+    pending = {
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      startTime: Date.now()
+    };
+    pendingRequests.set(request, pending);
+  }
+  return pending;
+}
+
+// Helper to turn Playwright's timing offsets into phase durations (-1 means unavailable)
+function getRequestTiming(request: Request): NetworkTiming {
+  const timing = request.timing();
+  const span = (start: number, end: number) =>
+    start >= 0 && end >= 0 ? Math.round((end - start) * 100) / 100 : undefined;
+  return {
+    dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    tls: span(timing.secureConnectionStart, timing.connectEnd),
+    ttfb: span(timing.requestStart, timing.responseStart),
+    download: span(timing.responseStart, timing.responseEnd),
+    total: span(0, timing.responseEnd),
+  };
+}
+
+// Helper to keep Playwright request/response objects for lazy detail lookups
+function trackNetworkObjects(session: Session, id: string, request: Request, response?: Response) {
+  session.networkObjects.delete(id);
+  session.networkObjects.set(id, { request, response });
+  if (session.networkObjects.size > MAX_NETWORK_LOGS) {
+    session.networkObjects.delete(session.networkObjects.keys().next().value!);
+  }
+}
+
+// Helper to cap captured post data
+function truncatePostData(request: Request): string | undefined {
+  const postData = request.postData();
+  if (postData === null) return undefined;
+  return postData.length > MAX_POST_DATA_LENGTH
+    ? `${postData.slice(0, MAX_POST_DATA_LENGTH)}... (${postData.length} characters)`
+    : postData;
+}
+
+// Helper to check whether a response body is readable text
+function isTextContentType(contentType: string | undefined): boolean {
+  if (!contentType) return false;
+  return /^text\/|^application\/(json|javascript|xml|x-www-form-urlencoded)|\+(json|xml)/i.test(contentType);
+}
+
+// Helper to append to the session's console log
+function addConsoleLog(session: Session, type: string, text: string) {
+  if (session.consoleLogs.length >= MAX_CONSOLE_LOGS) {
+    session.consoleLogs.shift();
+  }
+  const entry: ConsoleLogEntry = {
+    timestamp: Date.now(),
+    type,
+    text
+  };
+  session.consoleLogs.push(entry);
+  notifyClients({
+    method: "notifications/resources/updated",
+    params: { uri: sessionUri(session, "console://logs") },
+  });
+}
+
+// Helper to accept, dismiss or hold a dialog according to the session's policy
+async function handleDialog(session: Session, targetPage: Page, dialog: Dialog) {
+  const tab = Array.from(session.tabs.values()).find(tab => tab.page === targetPage);
+  const description = `${dialog.type()} dialog: ${dialog.message()}`;
+
+  if (session.dialogPolicy === 'hold') {
+    const id = `dialog-${++session.dialogCounter}`;
+    const pending = { id, tabId: tab?.id, dialog };
+    session.pendingDialogs.set(id, pending);
+    addConsoleLog(session, "dialog", `${description} (pending as ${id}, use browser_handle_dialog)`);
+    for (const waiter of session.dialogWaiters) {
+      waiter(pending);
+    }
+    return;
+  }
+
+  try {
+    if (session.dialogPolicy === 'accept') {
+      await dialog.accept(session.dialogPromptText);
+    } else {
+      await dialog.dismiss();
+    }
+  } catch {}
+  addConsoleLog(session, "dialog", `${description} (${session.dialogPolicy === 'accept' ? "accepted" : "dismissed"})`);
+}
+
+// Helper function to attach page event listeners for logging
+function attachPageListeners(session: Session, targetPage: Page) {
+  // Console listener
+  targetPage.on("console", (msg) => {
+    addConsoleLog(session, msg.type(), msg.text());
+  });
+
+  // Dialog listener - apply the session's dialog policy
+  targetPage.on("dialog", (dialog) => {
+    handleDialog(session, targetPage, dialog);
+  });
+
+  // Keep the tab's video, which is finalized when the page closes
+  const video = targetPage.video();
+  if (video) {
+    const tab = Array.from(session.tabs.values()).find(tab => tab.page === targetPage);
+    if (tab) {
+      session.videos.set(tab.id, { video });
+    }
+  }
+
+  // Download listener - save every download into the downloads directory
+  targetPage.on("download", (download) => {
+    const tab = Array.from(session.tabs.values()).find(tab => tab.page === targetPage);
+    saveDownload(session, download, tab?.id);
+  });
+
+  // Request listener - capture outgoing requests
+  targetPage.on("request", (request) => {
+    const { id } = getPendingRequest(request);
+
+    if (session.networkLogs.length >= MAX_NETWORK_LOGS) {
+      session.networkLogs.shift();
+    }
+    const entry: NetworkLogEntry = {
+      id,
+      timestamp: Date.now(),
+      type: 'request',
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      requestHeaders: request.headers(),
+      postData: truncatePostData(request)
+    };
+    session.networkLogs.push(entry);
+    trackNetworkObjects(session, id, request);
+  });
+
+  // Response listener - capture responses
+  targetPage.on("response", (response) => {
+    const request = response.request();
+    const pending = getPendingRequest(request);
+
+    if (session.networkLogs.length >= MAX_NETWORK_LOGS) {
+      session.networkLogs.shift();
+    }
+    const responseHeaders = response.headers();
+    const contentLength = responseHeaders["content-length"];
+    const entry: NetworkLogEntry = {
+      id: pending.id,
+      timestamp: Date.now(),
+      type: 'response',
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      status: response.status(),
+      statusText: response.statusText(),
+      duration: Date.now() - pending.startTime,
+      timing: getRequestTiming(request),
+      responseHeaders,
+      responseSize: contentLength !== undefined ? Number(contentLength) : undefined
+    };
+    session.networkLogs.push(entry);
+    trackNetworkObjects(session, entry.id, request, response);
+    pending.responseEntry = entry;
+  });
+
+  // Request finished listener - the body has been downloaded, so timing is complete
+  targetPage.on("requestfinished", (request) => {
+    const pending = pendingRequests.get(request);
+    if (pending?.responseEntry) {
+      pending.responseEntry.timing = getRequestTiming(request);
+    }
+    pendingRequests.delete(request);
+  });
+
+  // Request failed listener
+  targetPage.on("requestfailed", (request) => {
+    const pending = getPendingRequest(request);
+    const failure = request.failure();
+
+    if (session.networkLogs.length >= MAX_NETWORK_LOGS) {
+      session.networkLogs.shift();
+    }
+    const entry: NetworkLogEntry = {
+      id: pending.id,
+      timestamp: Date.now(),
+      type: 'requestfailed',
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      errorText: failure?.errorText || 'Unknown error',
+      duration: Date.now() - pending.startTime
+    };
+    session.networkLogs.push(entry);
+    pendingRequests.delete(request);
+  });
+}
+
+// Roles of the elements browser_snapshot keeps with interactiveOnly
+const INTERACTIVE_ROLES = new Set([
+  "button", "link", "textbox", "searchbox", "checkbox", "radio", "combobox",
+  "listbox", "option", "slider", "spinbutton", "switch", "tab", "menuitem",
+  "menuitemcheckbox", "menuitemradio", "treeitem",
+]);
+
+// Helper to reduce an aria snapshot to a flat list of its interactive elements:
+// those with an interactive role and other elements that show a pointer cursor
+function filterInteractiveLines(snapshot: string): string {
+  return snapshot.split("\n")
+    .map(line => line.trim().replace(/:$/, ""))
+    .filter(line => line.includes("[ref=") &&
+      (INTERACTIVE_ROLES.has(/^- '?([\w-]+)/.exec(line)?.[1] ?? "") || line.includes("[cursor=pointer]")))
+    .join("\n");
+}
+
+type ExtractField = string | { selector?: string; attribute?: string; html?: boolean; all?: boolean };
+
+// Runs inside the page: extracts rows of fields, tables or lists under root as JSON-serializable data
+function extractStructuredData(
+  root: Element,
+  options: { mode: "rows" | "tables" | "lists"; rowSelector?: string; fields?: Record<string, ExtractField> }
+): unknown[] {
+  const normalize = (text: string | null | undefined) => (text || "").replace(/\s+/g, " ").trim();
+
+  const isHidden = (el: Element) => {
+    if ((el as HTMLElement).hidden || el.getAttribute("aria-hidden") === "true") return true;
+    const style = window.getComputedStyle(el);
+    return style.display === "none" || style.visibility === "hidden";
+  };
+
+  const readValue = (el: Element, field: { attribute?: string; html?: boolean }) => {
+    if (field.attribute) {
+      const value = el.getAttribute(field.attribute);
+      if (value !== null && (field.attribute === "href" || field.attribute === "src")) {
+        try {
+          return new URL(value, document.baseURI).href;
+        } catch {}
+      }
+      return value;
+    }
+    if (field.html) return el.innerHTML;
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement) {
+      return el.value;
+    }
+    return normalize((el as HTMLElement).innerText ?? el.textContent);
+  };
+
+  if (options.mode === "tables") {
+    return Array.from(root.querySelectorAll("table"))
+      .filter(table => !isHidden(table))
+      .map((table, index) => {
+        const rows = Array.from(table.rows).filter(row => !isHidden(row));
+        const cellTexts = (row: HTMLTableRowElement) =>
+          Array.from(row.cells).map(cell => normalize((cell as HTMLElement).innerText ?? cell.textContent));
+        // Use the first row as headers when it is made of header cells
+        const headerRow = rows[0] && Array.from(rows[0].cells).every(cell => cell.tagName === "TH") ? rows.shift() : undefined;
+        const headers = headerRow ? cellTexts(headerRow) : undefined;
+        return {
+          index,
+          caption: normalize(table.caption?.textContent) || undefined,
+          headers,
+          rows: rows.map(row => {
+            const cells = cellTexts(row);
+            if (!headers) return cells;
+            return Object.fromEntries(cells.map((cell, i) => [headers[i] || `column${i + 1}`, cell]));
+          }),
+        };
+      });
+  }
+
+  if (options.mode === "lists") {
+    return Array.from(root.querySelectorAll("ul, ol, dl"))
+      .filter(list => !isHidden(list))
+      .map((list, index) => {
+        if (list.tagName === "DL") {
+          const items: { term: string; description: string }[] = [];
+          for (const child of Array.from(list.children)) {
+            if (child.tagName === "DT") items.push({ term: normalize(child.textContent), description: "" });
+            if (child.tagName === "DD" && items.length > 0) {
+              const last = items[items.length - 1];
+              last.description = normalize(`${last.description} ${child.textContent}`);
+            }
+          }
+          return { index, type: "definitions", items };
+        }
+        return {
+          index,
+          type: list.tagName === "OL" ? "ordered" : "unordered",
+          items: Array.from(list.children)
+            .filter(child => child.tagName === "LI" && !isHidden(child))
+            .map(item => normalize((item as HTMLElement).innerText ?? item.textContent)),
+        };
+      });
+  }
+
+  const fields = Object.entries(options.fields || {}).map(([name, field]) => {
+    if (typeof field !== "string") return [name, field] as const;
+    const at = field.lastIndexOf("@");
+    return [name, at >= 0
+      ? { selector: field.slice(0, at).trim() || undefined, attribute: field.slice(at + 1) }
+      : { selector: field || undefined }] as const;
+  });
+
+  return Array.from(root.querySelectorAll(options.rowSelector!))
+    .filter(row => !isHidden(row))
+    .map(row => {
+      if (fields.length === 0) return normalize((row as HTMLElement).innerText ?? row.textContent);
+      return Object.fromEntries(fields.map(([name, field]) => {
+        if (field.all) {
+          const matches = field.selector ? Array.from(row.querySelectorAll(field.selector)) : [row];
+          return [name, matches.map(match => readValue(match, field))];
+        }
+        const match = field.selector ? row.querySelector(field.selector) : row;
+        return [name, match ? readValue(match, field) : null];
+      }));
+    });
+}
+
+// Runs inside the page: renders the readable content under root as Markdown or
+// plain text, leaving out scripts, hidden elements and (optionally) page chrome.
+function buildPageContent(
+  root: Element,
+  options: { format: "markdown" | "text"; includeBoilerplate: boolean }
+): string {
+  const markdown = options.format === "markdown";
+  const skipTags = new Set([
+    "SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "SVG", "CANVAS", "IFRAME", "OBJECT", "EMBED",
+    "HEAD", "BUTTON", "INPUT", "SELECT", "TEXTAREA", "DIALOG",
+  ]);
+  const boilerplateTags = new Set(["NAV", "FOOTER", "ASIDE"]);
+  const boilerplateRoles = new Set(["navigation", "banner", "contentinfo", "complementary", "search"]);
+  const blockTags = new Set([
+    "P", "DIV", "SECTION", "ARTICLE", "MAIN", "HEADER", "FOOTER", "NAV", "ASIDE", "FORM", "FIELDSET",
+    "LEGEND", "FIGURE", "FIGCAPTION", "DL", "DT", "DD", "ADDRESS", "DETAILS", "SUMMARY", "BODY", "CENTER",
+  ]);
+  // Marks structural indentation so it survives the whitespace cleanup at the end
+  const INDENT = "\u0001";
+
+  const isHidden = (el: Element) => {
+    if ((el as HTMLElement).hidden || el.getAttribute("aria-hidden") === "true") return true;
+    const style = window.getComputedStyle(el);
+    return style.display === "none" || style.visibility === "hidden";
+  };
+
+  const isBoilerplate = (el: Element) => {
+    if (options.includeBoilerplate) return false;
+    const role = el.getAttribute("role");
+    if (role && boilerplateRoles.has(role)) return true;
+    if (boilerplateTags.has(el.tagName)) return true;
+    // Only the page header is chrome; headers of articles and sections are content
+    return el.tagName === "HEADER" && !el.parentElement?.closest("article, section, main");
+  };
+
+  const absoluteUrl = (url: string) => {
+    try {
+      return new URL(url, document.baseURI).href;
+    } catch {
+      return url;
+    }
+  };
+
+  const block = (text: string) => {
+    const trimmed = text.trim();
+    return trimmed ? `\n\n${trimmed}\n\n` : "";
+  };
+
+  const wrap = (text: string, marker: string) => {
+    const trimmed = text.trim();
+    return markdown && trimmed ? `${marker}${trimmed}${marker}` : text;
+  };
+
+  const renderChildren = (el: Element): string =>
+    Array.from(el.childNodes).map(render).join("");
+
+  const renderList = (list: Element) => {
+    const ordered = list.tagName === "OL";
+    let number = ordered ? (list as HTMLOListElement).start || 1 : 1;
+    const items = Array.from(list.children)
+      .filter(child => child.tagName === "LI" && !isHidden(child))
+      .map(item => {
+        const marker = ordered ? `${number++}. ` : "- ";
+        const [first, ...rest] = renderChildren(item).trim().replace(/\n{2,}/g, "\n").split("\n");
+        return [marker + first.trim(), ...rest.map(line => INDENT.repeat(marker.length) + line)].join("\n");
+      });
+    return block(items.join("\n"));
+  };
+
+  const renderTable = (table: HTMLTableElement) => {
+    const rows = Array.from(table.rows)
+      .filter(row => !isHidden(row))
+      .map(row => Array.from(row.cells).map(cell =>
+        renderChildren(cell).replace(/\s+/g, " ").trim().replace(/\|/g, markdown ? "\\|" : "|")
+      ))
+      .filter(cells => cells.some(cell => cell));
+    if (rows.length === 0) return "";
+    if (!markdown) {
+      return block(rows.map(cells => cells.join(" | ")).join("\n"));
+    }
+    const columns = Math.max(...rows.map(cells => cells.length));
+    const lines = rows.map(cells => `| ${[...cells, ...Array(columns - cells.length).fill("")].join(" | ")} |`);
+    lines.splice(1, 0, `|${" --- |".repeat(columns)}`);
+    return block(lines.join("\n"));
+  };
+
+  const render = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return (node.textContent || "").replace(/\s+/g, " ");
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return "";
+
+    const el = node as Element;
+    const tag = el.tagName.toUpperCase();
+    if (skipTags.has(tag) || isHidden(el) || (el !== root && isBoilerplate(el))) return "";
+
+    if (/^H[1-6]$/.test(tag)) {
+      const heading = renderChildren(el).replace(/\s+/g, " ").trim();
+      return block(markdown ? `${"#".repeat(Number(tag[1]))} ${heading}` : heading);
+    }
+
+    switch (tag) {
+      case "BR":
+        return "\n";
+      case "HR":
+        return markdown ? block("---") : "\n\n";
+      case "UL":
+      case "OL":
+        return renderList(el);
+      case "TABLE":
+        return renderTable(el as HTMLTableElement);
+      case "PRE": {
+        const code = (el.textContent || "").replace(/\n$/, "");
+        if (markdown) return `\n\n\`\`\`\n${code}\n\`\`\`\n\n`;
+        return `\n\n${code.replace(/^ +/gm, indent => INDENT.repeat(indent.length))}\n\n`;
+      }
+      case "BLOCKQUOTE": {
+        const quote = renderChildren(el).trim().replace(/\n{3,}/g, "\n\n");
+        return block(markdown ? quote.split("\n").map(line => `> ${line.trim()}`.trimEnd()).join("\n") : quote);
+      }
+      case "DETAILS": {
+        // Closed details only show their summary
+        if ((el as HTMLDetailsElement).open) return block(renderChildren(el));
+        const summary = Array.from(el.children).find(child => child.tagName === "SUMMARY");
+        return summary ? block(renderChildren(summary)) : "";
+      }
+      case "A": {
+        const text = renderChildren(el).replace(/\s+/g, " ").trim();
+        const href = el.getAttribute("href");
+        if (!text || !href || href.startsWith("javascript:")) return text;
+        return markdown ? `[${text}](${absoluteUrl(href)})` : `${text} (${absoluteUrl(href)})`;
+      }
+      case "IMG": {
+        const alt = (el.getAttribute("alt") || "").trim();
+        if (!alt) return "";
+        return markdown ? `![${alt}](${absoluteUrl(el.getAttribute("src") || "")})` : alt;
+      }
+      case "STRONG":
+      case "B":
+        return wrap(renderChildren(el), "**");
+      case "EM":
+      case "I":
+        return wrap(renderChildren(el), "*");
+      case "DEL":
+      case "S":
+        return wrap(renderChildren(el), "~~");
+      case "CODE":
+        return wrap(renderChildren(el), "`");
+    }
+
+    const content = renderChildren(el);
+    return blockTags.has(tag) ? block(content) : content;
+  };
+
+  // Trim each line outside code blocks, then restore the structural indentation
+  let inCode = false;
+  const lines = render(root).split("\n").map(line => {
+    if (line.startsWith("```")) inCode = !inCode;
+    return inCode || line.startsWith("```") ? line : line.trim().split(INDENT).join(" ");
+  });
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// Helper to quote a string as a single-quoted JavaScript literal. JSON.stringify escapes
+// backslashes and control characters; line and paragraph separators are escaped as well
+// so the literal also works in older runtimes.
+function quote(text: string): string {
+  const escaped = JSON.stringify(text).slice(1, -1)
+    .replace(/\\"/g, '"')
+    .replace(/'/g, "\\'")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+  return `'${escaped}'`;
+}
+
+// Stands in for the page variable inside nested locators of rendered locator code
+const PAGE_VAR_PLACEHOLDER = "<page>";
+
+// Helper to render the Playwright locator for a locator, selector or snapshot ref,
+// prefixed with the frameLocator chain of the frame the tool runs in. Refs only resolve
+// against the latest snapshot, so they are replaced by the locator Playwright generates for
+// the element; call it before acting, as the action may remove the element.
+async function getLocatorCode(page: Page, args: any): Promise<string | undefined> {
+  let scope: Frame;
+  let frameCode: string;
+  try {
+    scope = await getTargetFrame(page, args);
+    frameCode = await getFrameLocatorCode(scope);
+  } catch {
+    return undefined;
+  }
+
+  let code: string | undefined;
+  if (args.locator) {
+    const refCodes = new Map<string, string | undefined>();
+    for (const ref of collectLocatorRefs(args.locator)) {
+      refCodes.set(ref, await getRefLocatorCode(scope, ref).catch(() => undefined));
+    }
+    code = renderLocatorCode(args.locator, ref => refCodes.get(ref));
+  } else if (args.ref) {
+    code = await getRefLocatorCode(scope, args.ref).catch(() => undefined);
+  } else if (args.selector) {
+    code = `locator(${quote(args.selector)})`;
+  }
+  if (code === undefined || !frameCode) return code;
+  // Nested locators must be looked up in the same frame
+  return `${frameCode}.${code.split(PAGE_VAR_PLACEHOLDER).join(`${PAGE_VAR_PLACEHOLDER}.${frameCode}`)}`;
+}
+
+// Helper to list the snapshot refs used anywhere in a locator
+function collectLocatorRefs(spec: LocatorSpec): string[] {
+  return [
+    ...(spec.ref ? [spec.ref] : []),
+    ...(spec.has ? collectLocatorRefs(spec.has) : []),
+    ...(spec.within ? collectLocatorRefs(spec.within) : []),
+  ];
+}
+
+// Helper to render a locator as Playwright code, given the code to use for snapshot refs
+function renderLocatorCode(spec: LocatorSpec, refCode: (ref: string) => string | undefined): string | undefined {
+  const textCode = (value: string) => !spec.literal && parseTextMatch(value) instanceof RegExp ? value : quote(value);
+  const exactOption = spec.exact ? ", { exact: true }" : "";
+
+  let code: string | undefined;
+  if (spec.ref) {
+    // Refs are unique on the page, so scoping doesn't apply to them
+    code = refCode(spec.ref);
+  } else {
+    let base: string;
+    if (spec.role) {
+      const nameOption = spec.name !== undefined ? `, { name: ${textCode(spec.name)}${spec.exact ? ", exact: true" : ""} }` : "";
+      base = `getByRole(${quote(spec.role)}${nameOption})`;
+    } else if (spec.label !== undefined) {
+      base = `getByLabel(${textCode(spec.label)}${exactOption})`;
+    } else if (spec.placeholder !== undefined) {
+      base = `getByPlaceholder(${textCode(spec.placeholder)}${exactOption})`;
+    } else if (spec.altText !== undefined) {
+      base = `getByAltText(${textCode(spec.altText)}${exactOption})`;
+    } else if (spec.title !== undefined) {
+      base = `getByTitle(${textCode(spec.title)}${exactOption})`;
+    } else if (spec.testId !== undefined) {
+      base = `getByTestId(${quote(spec.testId)})`;
+    } else if (spec.text !== undefined) {
+      base = `getByText(${textCode(spec.text)}${exactOption})`;
+    } else if (spec.xpath) {
+      base = `locator(${quote(`xpath=${spec.xpath}`)})`;
+    } else {
+      base = `locator(${quote(spec.css ?? "")})`;
+    }
+    const scope = spec.within ? renderLocatorCode(spec.within, refCode) : "";
+    code = scope === undefined ? undefined : scope ? `${scope}.${base}` : base;
+  }
+  if (code === undefined) return undefined;
+
+  const filters: string[] = [];
+  if (spec.has) {
+    const hasCode = renderLocatorCode(spec.has, refCode);
+    if (hasCode === undefined) return undefined;
+    filters.push(`has: ${PAGE_VAR_PLACEHOLDER}.${hasCode}`);
+  }
+  if (spec.hasText !== undefined) filters.push(`hasText: ${textCode(spec.hasText)}`);
+  if (spec.hasNotText !== undefined) filters.push(`hasNotText: ${textCode(spec.hasNotText)}`);
+  if (filters.length > 0) code += `.filter({ ${filters.join(", ")} })`;
+  if (spec.nth !== undefined) code += `.nth(${spec.nth})`;
+  return code;
+}
+
+// Helper to render the Playwright locator of a snapshot ref, relative to the ref's frame.
+// normalize() picks a test id, role or other user-facing locator over CSS where it can.
+async function getRefLocatorCode(root: Page | Frame, ref: string): Promise<string> {
+  const code = (await root.locator(`aria-ref=${ref}`).normalize()).toString();
+  // The frame chain is rendered separately, as frameLocator calls
+  const frameEnd = code.lastIndexOf(".contentFrame().");
+  return frameEnd === -1 ? code : code.slice(frameEnd + ".contentFrame().".length);
+}
+
+// Helper to record a successful interaction for browser_export_script
+function recordAction(session: Session, statement: (pageVar: string) => string) {
+  if (session.activeTabId) {
+    session.recordedActions.push({ tabId: session.activeTabId, statement });
+  }
+}
+
+// Helper to record a successful interaction with an element
+function recordLocatorAction(session: Session, locatorCode: string | undefined, call: string) {
+  if (locatorCode) {
+    recordAction(session, pageVar => `await ${pageVar}.${withPageVar(locatorCode, pageVar)}.${call};`);
+  }
+}
+
+// Helper to fill in the page variable of nested locators in rendered locator code
+function withPageVar(locatorCode: string, pageVar: string): string {
+  return locatorCode.split(PAGE_VAR_PLACEHOLDER).join(pageVar);
+}
+
+// Helper to render recorded interactions as a @playwright/test spec or plain script
+function generateScript(session: Session, format: "test" | "script", testName: string): string {
+  const pageVars = new Map<string, string>();
+  const body: string[] = [];
+
+  for (const action of session.recordedActions) {
+    let pageVar = pageVars.get(action.tabId);
+    if (!pageVar) {
+      pageVar = pageVars.size === 0 ? "page" : `page${pageVars.size + 1}`;
+      if (pageVars.size > 0) {
+        body.push(`const ${pageVar} = await context.newPage();`);
+      }
+      pageVars.set(action.tabId, pageVar);
+    }
+    body.push(action.statement(pageVar));
+  }
+
+  if (format === "script") {
+    const browserName = session.browser?.browserType().name() || "chromium";
+    return [
+      `import { ${browserName} } from 'playwright';`,
+      ``,
+      `(async () => {`,
+      `  const browser = await ${browserName}.launch({ headless: false });`,
+      `  const context = await browser.newContext();`,
+      `  const page = await context.newPage();`,
+      ...body.map(line => `  ${line}`),
+      `  await browser.close();`,
+      `})();`,
+      ``,
+    ].join("\n");
+  }
+
+  return [
+    `import { test } from '@playwright/test';`,
+    ``,
+    `test(${quote(testName)}, async ({ page, context }) => {`,
+    ...body.map(line => `  ${line}`),
+    `});`,
+    ``,
+  ].join("\n");
+}
+
+// Helper to describe the target of an interaction tool in responses
+function describeTarget(args: any): string {
+  if (args.locator) {
+    const code = renderLocatorCode(args.locator, ref => `ref ${ref}`);
+    return code ? withPageVar(code, "page") : "locator";
+  }
+  return args.ref ? `ref ${args.ref}` : args.selector;
+}
+
+// Helper to tell whether an interaction tool was given an element to target
+function hasTarget(args: any): boolean {
+  return !!(args.locator || args.selector || args.ref);
+}
+
+// Locator argument of the interaction tools; see LOCATOR_SCHEMA
+interface LocatorSpec {
+  css?: string;
+  xpath?: string;
+  text?: string;
+  role?: string;
+  name?: string;
+  label?: string;
+  placeholder?: string;
+  altText?: string;
+  title?: string;
+  testId?: string;
+  ref?: string;
+  exact?: boolean;
+  hasText?: string;
+  hasNotText?: string;
+  has?: LocatorSpec;
+  within?: LocatorSpec;
+  nth?: number;
+  // Set by the text tools, whose text is never a regular expression
+  literal?: boolean;
+}
+
+const LOCATOR_KINDS = ["css", "xpath", "text", "role", "label", "placeholder", "altText", "title", "testId", "ref"] as const;
+
+// Helper to turn a /pattern/flags string into a regular expression
+function parseTextMatch(value: string): string | RegExp {
+  const match = /^\/(.+)\/([dgimsuy]*)$/.exec(value);
+  if (!match) return value;
+  try {
+    return new RegExp(match[1], match[2]);
+  } catch {
+    return value;
+  }
+}
+
+// Helper to build the Playwright locator for a locator argument
+function buildLocator(root: Page | Frame, spec: LocatorSpec): Locator {
+  if (typeof spec !== "object" || spec === null) {
+    throw new Error("locator must be an object, e.g. { \"role\": \"button\", \"name\": \"Save\" }");
+  }
+  const kinds = LOCATOR_KINDS.filter(kind => spec[kind] !== undefined);
+  if (kinds.length !== 1) {
+    throw new Error(`locator needs exactly one of ${LOCATOR_KINDS.join(", ")}${kinds.length > 1 ? ` (got ${kinds.join(", ")})` : ""}`);
+  }
+
+  const scope: Page | Frame | Locator = spec.within && !spec.ref ? buildLocator(root, spec.within) : root;
+  const options = { exact: spec.exact };
+  const textMatch = (value: string) => spec.literal ? value : parseTextMatch(value);
+  let locator: Locator;
+  if (spec.ref) {
+    locator = root.locator(`aria-ref=${spec.ref}`);
+  } else if (spec.role) {
+    locator = scope.getByRole(spec.role as Parameters<Page["getByRole"]>[0], {
+      name: spec.name !== undefined ? textMatch(spec.name) : undefined,
+      exact: spec.exact,
+    });
+  } else if (spec.label !== undefined) {
+    locator = scope.getByLabel(textMatch(spec.label), options);
+  } else if (spec.placeholder !== undefined) {
+    locator = scope.getByPlaceholder(textMatch(spec.placeholder), options);
+  } else if (spec.altText !== undefined) {
+    locator = scope.getByAltText(textMatch(spec.altText), options);
+  } else if (spec.title !== undefined) {
+    locator = scope.getByTitle(textMatch(spec.title), options);
+  } else if (spec.testId !== undefined) {
+    locator = scope.getByTestId(spec.testId);
+  } else if (spec.text !== undefined) {
+    locator = scope.getByText(textMatch(spec.text), options);
+  } else if (spec.xpath) {
+    locator = scope.locator(`xpath=${spec.xpath}`);
+  } else {
+    locator = scope.locator(spec.css!);
+  }
+
+  // aria-ref finds its element wherever it is looked up, so a has with refs keeps
+  // the ancestors of its matches instead of looking inside every candidate
+  const hasRefs = spec.has !== undefined && collectLocatorRefs(spec.has).length > 0;
+  if (spec.has && hasRefs) {
+    locator = locator.and(buildLocator(root, spec.has).locator("xpath=ancestor::*"));
+  }
+  if ((spec.has && !hasRefs) || spec.hasText !== undefined || spec.hasNotText !== undefined) {
+    locator = locator.filter({
+      has: spec.has && !hasRefs ? buildLocator(root, spec.has) : undefined,
+      hasText: spec.hasText !== undefined ? textMatch(spec.hasText) : undefined,
+      hasNotText: spec.hasNotText !== undefined ? textMatch(spec.hasNotText) : undefined,
+    });
+  }
+  if (spec.nth !== undefined) {
+    locator = locator.nth(spec.nth);
+  }
+  return locator;
+}
+
+// Helper to resolve the locator for a locator argument, CSS selector or snapshot ref
+async function resolveTarget(page: Page, args: any): Promise<Locator> {
+  const scope = await getTargetFrame(page, args);
+  if (args.locator) {
+    return buildLocator(scope, args.locator);
+  }
+  if (args.ref) {
+    return scope.locator(`aria-ref=${args.ref}`);
+  }
+  if (!args.selector) {
+    throw new Error("Either locator, selector or ref is required");
+  }
+  return scope.locator(args.selector);
+}
+
+// Frame argument: a frame name or URL pattern, or an object narrowing the frame down
+type FrameSpec = string | { name?: string; url?: string; selector?: string | string[] };
+
+// Helper to match a frame URL against a glob (* within a path segment, ** across
+// segments), /regex/ or substring pattern
+function matchesUrlPattern(url: string, pattern: string): boolean {
+  const match = parseTextMatch(pattern);
+  if (match instanceof RegExp) return match.test(url);
+  if (!pattern.includes("*")) return url.includes(pattern);
+  const source = pattern.split("**").map(part =>
+    part.split("*").map(text => text.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^/]*")
+  ).join(".*");
+  return new RegExp(`^${source}$`).test(url);
+}
+
+// Helper to describe a frame in messages
+function describeFrame(frame: Frame): string {
+  return frame.name() ? `${frame.name()} (${frame.url()})` : frame.url();
+}
+
+// Helper to resolve the frame argument to a frame of the page. A string is a frame
+// name if a frame has that name, otherwise a URL pattern.
+async function resolveFrame(page: Page, spec: FrameSpec): Promise<Frame> {
+  if (typeof spec === "string") {
+    spec = page.frame({ name: spec }) ? { name: spec } : { url: spec };
+  }
+  if (typeof spec !== "object" || spec === null || (!spec.name && !spec.url && !spec.selector)) {
+    throw new Error("frame must be a frame name, a URL pattern or an object with name, url or selector");
+  }
+
+  const { name, url, selector } = spec;
+  const childFrames = page.frames().filter(frame => frame !== page.mainFrame());
+  let frame: Frame | null | undefined;
+  if (selector) {
+    // Walk the iframe chain from the main frame, like chained frameLocator calls
+    frame = page.mainFrame();
+    for (const frameSelector of ([] as string[]).concat(selector)) {
+      const owner = frame.frameLocator(frameSelector).owner();
+      const count = await owner.count();
+      if (count !== 1) {
+        throw new Error(`Frame selector ${frameSelector} matched ${count} elements, expected one iframe`);
+      }
+      const handle = await owner.elementHandle();
+      frame = await handle!.contentFrame();
+      await handle!.dispose();
+      if (!frame) {
+        throw new Error(`Frame selector ${frameSelector} does not match an iframe`);
+      }
+    }
+  } else {
+    const matches = childFrames.filter(candidate =>
+      (name === undefined || candidate.name() === name) &&
+      (url === undefined || matchesUrlPattern(candidate.url(), url))
+    );
+    if (matches.length > 1) {
+      throw new Error(
+        `Frame ${JSON.stringify(spec)} matches ${matches.length} frames: ${matches.map(describeFrame).join(", ")}. ` +
+        `Narrow it down with name, url or selector`
+      );
+    }
+    frame = matches[0];
+  }
+
+  if (!frame) {
+    const available = childFrames.map(describeFrame).join(", ") || "none";
+    throw new Error(`Frame ${JSON.stringify(spec)} not found. Available frames: ${available}. Use browser_list_frames to inspect them`);
+  }
+  return frame;
+}
+
+// Helper to find the frame of a snapshot ref. Refs of iframes carry a frame prefix (f1e3)
+// that Playwright's aria-ref selector follows from the page. Only refs of the latest
+// snapshot of a frame resolve.
+async function getRefFrame(page: Page, ref: string): Promise<Frame | undefined> {
+  try {
+    const handle = await page.$(`aria-ref=${ref}`);
+    const frame = await handle?.ownerFrame();
+    await handle?.dispose();
+    return frame ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Helper to get the frame a tool runs in: the frame argument, the frame of the snapshot
+// refs it targets, or the main frame
+async function getTargetFrame(page: Page, args: any): Promise<Frame> {
+  const refs: string[] = args.locator ? collectLocatorRefs(args.locator) : args.ref ? [args.ref] : [];
+  const refFrames = new Set<Frame>();
+  for (const ref of refs) {
+    const refFrame = await getRefFrame(page, ref);
+    if (!refFrame) {
+      throw new Error(`Element ref ${ref} not found. The page may have changed; take a new browser_snapshot`);
+    }
+    refFrames.add(refFrame);
+  }
+
+  const frame = args.frame !== undefined
+    ? await resolveFrame(page, args.frame)
+    : refFrames.values().next().value ?? page.mainFrame();
+  if (refFrames.size > 1 || (refFrames.size === 1 && !refFrames.has(frame))) {
+    throw new Error(`Element ref ${refs.join(", ")} belongs to a different frame; take a new browser_snapshot of the frame`);
+  }
+  return frame;
+}
+
+// Helper to compute the selectors of the iframe elements leading from the main frame
+// to a frame, outermost first
+async function getFrameSelectors(frame: Frame): Promise<string[]> {
+  const selectors: string[] = [];
+  for (let current = frame; current.parentFrame(); current = current.parentFrame()!) {
+    const element = await current.frameElement();
+    selectors.unshift(await element.evaluate((el: Element) => {
+      const tag = el.tagName.toLowerCase();
+      const candidates = [
+        el.id ? `#${CSS.escape(el.id)}` : "",
+        ...["name", "title", "src"].map(attribute => {
+          const value = el.getAttribute(attribute);
+          return value ? `${tag}[${attribute}=${JSON.stringify(value)}]` : "";
+        }),
+      ];
+      const unique = candidates.find(candidate => candidate && document.querySelectorAll(candidate).length === 1);
+      return unique || `${tag} >> nth=${Array.from(document.querySelectorAll(tag)).indexOf(el)}`;
+    }));
+    await element.dispose();
+  }
+  return selectors;
+}
+
+// Helper to render the frameLocator chain that reaches a frame from the page
+async function getFrameLocatorCode(frame: Frame): Promise<string> {
+  const selectors = await getFrameSelectors(frame);
+  return selectors.map(selector => `frameLocator(${quote(selector)})`).join(".");
+}
+
+// Helper to narrow a locator matching several elements down to one according to the
+// ambiguity policy. Returns the narrowed locator and the call that picked the match.
+async function applyAmbiguityPolicy(locator: Locator, args: any, frame: Frame): Promise<{ locator: Locator; pick?: string }> {
+  // count() doesn't wait, so let a late element appear before deciding whether the target is ambiguous
+  await locator.first().waitFor({ state: "attached" });
+  const count = await locator.count();
+  if (count <= 1) {
+    return { locator };
+  }
+
+  const policy: AmbiguityPolicy = args.ambiguity || config.ambiguityPolicy;
+  switch (policy) {
+    case "first":
+      return { locator: locator.first(), pick: "first()" };
+    case "last":
+      return { locator: locator.last(), pick: "last()" };
+    case "nth": {
+      const index = args.ambiguityIndex ?? config.ambiguityIndex;
+      if (typeof index !== "number" || index < -count || index >= count) {
+        throw new Error(`ambiguity 'nth' needs an ambiguityIndex between ${-count} and ${count - 1}`);
+      }
+      return { locator: locator.nth(index), pick: `nth(${index})` };
+    }
+  }
+
+  const candidates = await locator.evaluateAll((elements, max) => elements.slice(0, max).map(el => {
+    const rect = el.getBoundingClientRect();
+    const text = ((el as HTMLElement).innerText ?? el.textContent ?? "").replace(/\s+/g, " ").trim();
+    return {
+      ref: undefined as string | undefined,
+      tag: el.tagName.toLowerCase(),
+      role: undefined as string | undefined,
+      name: undefined as string | undefined,
+      text: text.length > 80 ? text.slice(0, 80) + "…" : text,
+      boundingBox: rect.width || rect.height
+        ? { x: Math.round(rect.x), y: Math.round(rect.y), width: Math.round(rect.width), height: Math.round(rect.height) }
+        : null,
+    };
+  }), MAX_AMBIGUITY_CANDIDATES);
+
+  // The accessibility tree gives each candidate its implicit role, like button for <button>,
+  // and a ref the caller can pick it with
+  for (const [index, candidate] of candidates.entries()) {
+    const nodes = await locator.nth(index).ariaSnapshotJSON({ mode: "ai", depth: 1 }).catch(() => []);
+    if (Array.isArray(nodes) && nodes.length === 1 && nodes[0].role !== "text") {
+      candidate.role = nodes[0].role;
+      candidate.name = nodes[0].name;
+      candidate.ref = nodes[0].ref;
+    }
+  }
+  // Only refs of a frame's latest snapshot resolve, so snapshot the whole frame again to
+  // keep earlier refs and the candidates' refs working
+  await frame.locator("body").ariaSnapshot({ mode: "ai" }).catch(() => {});
+
+  const baseLocator: LocatorSpec = args.locator ?? { css: args.selector };
+  const candidateList = candidates.map((candidate, index) => ({
+    index,
+    ...candidate,
+    locator: { ...baseLocator, nth: index },
+  }));
+  throw new Error(
+    `${describeTarget(args)} matches ${count} elements. Use one of the candidates' ref or locator` +
+    `${args.locatorTool ? ` with ${args.locatorTool}` : ""}, ` +
+    `or pass ambiguity 'first', 'last' or 'nth' with ambiguityIndex` +
+    `${count > candidates.length ? ` (showing ${candidates.length} of ${count})` : ""}:\n` +
+    JSON.stringify(candidateList, null, 2)
+  );
+}
+
+// Helper to wait until smooth scrolling of a frame, and of an element in it, has finished.
+// Returns the frame's scroll position.
+async function waitForScrollToSettle(frame: Frame, target?: Locator): Promise<{ x: number; y: number }> {
+  const handle = target ? await target.elementHandle() : null;
+  try {
+    return await frame.evaluate(el => new Promise<{ x: number; y: number }>(resolve => {
+      const read = () => `${window.scrollX},${window.scrollY},${el?.scrollLeft},${el?.scrollTop}`;
+      const deadline = Date.now() + 2000;
+      let last = read();
+      let stableChecks = 0;
+      const check = () => {
+        const current = read();
+        stableChecks = current === last ? stableChecks + 1 : 0;
+        last = current;
+        if (stableChecks >= 3 || Date.now() > deadline) {
+          resolve({ x: window.scrollX, y: window.scrollY });
+        } else {
+          setTimeout(check, 50);
+        }
+      };
+      setTimeout(check, 50);
+    }), handle);
+  } finally {
+    await handle?.dispose();
+  }
+}
+
+// Helper to resolve the single element an interaction tool targets, with the Playwright
+// code for it to record for browser_export_script
+async function resolveElement(page: Page, args: any): Promise<{ locator: Locator; code?: string }> {
+  const code = await getLocatorCode(page, args);
+  const frame = await getTargetFrame(page, args);
+  const { locator, pick } = await applyAmbiguityPolicy(await resolveTarget(page, args), args, frame);
+  return { locator, code: code && pick ? `${code}.${pick}` : code };
+}
+
+// Helper to run an interaction against the element a tool targets and record it for
+// browser_export_script
+async function runLocatorAction(
+  session: Session,
+  page: Page,
+  args: any,
+  verb: string,
+  call: string,
+  action: (locator: Locator) => Promise<unknown>,
+  successText: string,
+  target = describeTarget(args)
+): Promise<CallToolResult> {
+  try {
+    const { locator, code } = await resolveElement(page, args);
+    await action(locator);
+    recordLocatorAction(session, code, call);
+    return {
+      content: [{ type: "text", text: successText }],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Failed to ${verb} ${target}: ${(error as Error).message}` }],
+      isError: true,
+    };
+  }
+}
+
+type FormFieldKind = "text" | "textarea" | "checkbox" | "radio" | "select" | "date" | "range" | "contenteditable";
+
+// Helper to detect what kind of form field an element is
+async function detectFieldKind(locator: Locator): Promise<FormFieldKind> {
+  return locator.first().evaluate((el): FormFieldKind => {
+    if (el instanceof HTMLSelectElement) return "select";
+    if (el instanceof HTMLTextAreaElement) return "textarea";
+    if (el instanceof HTMLInputElement) {
+      const type = el.type.toLowerCase();
+      if (type === "checkbox" || type === "radio" || type === "range") return type;
+      if (["date", "time", "datetime-local", "month", "week"].includes(type)) return "date";
+      return "text";
+    }
+    return (el as HTMLElement).isContentEditable ? "contenteditable" : "text";
+  });
+}
+
+// Helper to set a form field to a value; returns the recorded call for browser_export_script
+async function fillFormField(locator: Locator, kind: FormFieldKind, value: any): Promise<string> {
+  switch (kind) {
+    case "checkbox": {
+      const checked = value === true || ["true", "on", "yes", "checked", "1"].includes(String(value).toLowerCase());
+      await locator.setChecked(checked);
+      return `setChecked(${checked})`;
+    }
+    case "radio": {
+      // A selector matching a whole radio group picks the radio by its value or label
+      if (await locator.count() > 1) {
+        const index = await locator.evaluateAll((radios, wanted) => radios.findIndex(radio => {
+          const input = radio as HTMLInputElement;
+          const label = Array.from(input.labels || []).map(label => label.textContent?.trim()).join(" ");
+          return input.value === wanted || label === wanted;
+        }), String(value));
+        if (index < 0) {
+          throw new Error(`No radio button with value or label '${value}'`);
+        }
+        await locator.nth(index).check();
+        return `nth(${index}).check()`;
+      }
+      await locator.check();
+      return "check()";
+    }
+    case "select": {
+      const options = Array.isArray(value) ? value.map(String) : String(value);
+      await locator.selectOption(options);
+      return `selectOption(${Array.isArray(options) ? `[${options.map(quote).join(", ")}]` : quote(options)})`;
+    }
+    case "range": {
+      // Range inputs can't be filled; set the value and fire the events a user would
+      await locator.evaluate((el, rangeValue) => {
+        (el as HTMLInputElement).value = rangeValue;
+        el.dispatchEvent(new Event("input", { bubbles: true }));
+        el.dispatchEvent(new Event("change", { bubbles: true }));
+      }, String(value));
+      return `evaluate((el, value) => { el.value = value; el.dispatchEvent(new Event('input', { bubbles: true })); el.dispatchEvent(new Event('change', { bubbles: true })); }, ${quote(String(value))})`;
+    }
+    default:
+      await locator.fill(String(value));
+      return `fill(${quote(String(value))})`;
+  }
+}
+
+async function closeBrowser(session: Session) {
+  // Close all tabs, giving their beforeunload handlers a moment to raise a dialog
+  for (const [tabId, tabInfo] of session.tabs) {
+    try {
+      const closed = tabInfo.page.waitForEvent("close", { timeout: 1000 }).catch(() => {});
+      await tabInfo.page.close({ runBeforeUnload: true });
+      await closed;
+    } catch {}
+  }
+  session.tabs.clear();
+  session.activeTabId = undefined;
+  // Tab IDs aren't reused, so a new browser's tabs don't pick up videos of the old ones
+  session.routes.clear();
+  session.routeCounter = 0;
+  session.pendingDialogs.clear();
+
+  // Traces are discarded when their context closes, so save an active one first
+  if (session.tracing) {
+    try { await saveTrace(session); } catch {}
+  }
+
+  if (session.context) {
+    try { await session.context.close(); } catch {}
+    session.context = undefined;
+  }
+
+  // Videos are fully written once their context closes
+  for (const entry of session.videos.values()) {
+    if (!entry.path) {
+      try { entry.path = await entry.video.path(); } catch {}
+    }
+  }
+
+  // The HAR file is written when its context closes
+  if (session.harRecording) {
+    try {
+      await fs.access(session.harRecording.path);
+      harFiles.set(session.harRecording.name, session.harRecording.path);
+      notifyClients({
+        method: "notifications/resources/list_changed",
+      });
+    } catch {}
+    session.harRecording = undefined;
+  }
+  // Browsers can be shared between sessions; only close one when no other session uses it
+  if (session.browser) {
+    const sharedBrowser = session.browser;
+    session.browser = undefined;
+    if (!Array.from(sessions.values()).some(other => other.browser === sharedBrowser)) {
+      try { await sharedBrowser.close(); } catch {}
+    }
+  }
+
+  // Clear logs on browser close
+  session.consoleLogs.length = 0;
+  session.networkLogs.length = 0;
+  session.networkObjects.clear();
+}
+
+// Helper to stop the session's active trace and register the archive as a resource
+async function saveTrace(session: Session): Promise<{ name: string; path: string }> {
+  const trace = session.tracing!;
+  session.tracing = undefined;
+  await fs.mkdir(TRACE_DIR, { recursive: true });
+  await session.context!.tracing.stop({ path: trace.path });
+  traceFiles.set(trace.name, trace.path);
+  notifyClients({
+    method: "notifications/resources/list_changed",
+  });
+  return trace;
+}
+
+async function ensureBrowser(session: Session): Promise<Page> {
+  if (!session.context) {
+    // A new browser starts a new recording, like browser_launch
+    session.recordedActions = [];
+    if (!session.browser) {
+      session.browser = await playwright.chromium.launch({ headless: false });
+    }
+    session.context = await session.browser.newContext();
+  }
+
+  // If no tabs exist, create one
+  if (session.tabs.size === 0) {
+    const page = await session.context!.newPage();
+    const tabId = generateTabId(session);
+    session.tabs.set(tabId, { page, id: tabId });
+    session.activeTabId = tabId;
+    attachPageListeners(session, page);
+  }
+
+  return getActivePage(session)!;
+}
+
+// Helper to turn the arguments of a text tool into those of its locator-based tool
+function textToolArgs(args: any, locatorTool: ToolName): any {
+  return { ...args, text: undefined, locator: { text: args.text, literal: true }, locatorTool };
+}
+
+async function handleToolCall(name: ToolName, args: any, client: ClientState): Promise<CallToolResult> {
+  // Session management tools don't run against a session
+  switch (name) {
+    case ToolName.BrowserSessionCreate: {
+      const sessionName = args.name;
+
+      if (!/^[\w.-]+$/.test(sessionName || "")) {
+        return {
+          content: [{ type: "text", text: "Session name may only contain letters, digits, '.', '_' and '-'" }],
+          isError: true
+        };
+      }
+
+      if (sessions.has(sessionName)) {
+        return {
+          content: [{ type: "text", text: `Session ${sessionName} already exists` }],
+          isError: true
+        };
+      }
+
+      const newSession = createSession(sessionName);
+      await loadScreenshotIndex(newSession);
+      const activeSession = sessions.get(client.activeSessionName)!;
+      if ((args.shareBrowser ?? true) && activeSession.browser?.isConnected()) {
+        newSession.browser = activeSession.browser;
+      }
+      sessions.set(sessionName, newSession);
+
+      if (args.switch ?? true) {
+        client.activeSessionName = sessionName;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `Created session ${sessionName}${client.activeSessionName === sessionName ? " (now active)" : ""}`
+        }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserSessionList: {
+      const sessionList = Array.from(sessions.values()).map(session => ({
+        name: session.name,
+        active: session.name === client.activeSessionName,
+        browserOpen: session.context !== undefined,
+        tabs: session.tabs.size,
+        activeTab: session.activeTabId,
+        url: getActivePage(session)?.url()
+      }));
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(sessionList, null, 2) }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserSessionSwitch: {
+      if (!sessions.has(args.name)) {
+        const availableSessions = Array.from(sessions.keys()).join(", ");
+        return {
+          content: [{ type: "text", text: `Session ${args.name} not found. Available sessions: ${availableSessions}` }],
+          isError: true
+        };
+      }
+
+      client.activeSessionName = args.name;
+      return {
+        content: [{ type: "text", text: `Switched to session ${args.name}` }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserSessionClose: {
+      const sessionName = args.name || client.activeSessionName;
+      const session = sessions.get(sessionName);
+
+      if (!session) {
+        return {
+          content: [{ type: "text", text: `Session ${sessionName} not found` }],
+          isError: true
+        };
+      }
+
+      // Stored screenshots stay on disk and come back when a session with this name is created
+      await closeBrowser(session);
+
+      if (sessionName === DEFAULT_SESSION) {
+        return {
+          content: [{ type: "text", text: "Closed the default session's browser" }],
+          isError: false
+        };
+      }
+
+      sessions.delete(sessionName);
+      await fs.rm(getPdfDir(session), { recursive: true, force: true });
+      notifyClients({
+        method: "notifications/resources/list_changed",
+      });
+
+      // Clients that were using the session fall back to the default one
+      const wasActive = client.activeSessionName === sessionName;
+      for (const other of clients) {
+        if (other.activeSessionName === sessionName) {
+          other.activeSessionName = DEFAULT_SESSION;
+        }
+      }
+      if (wasActive) {
+        return {
+          content: [{ type: "text", text: `Closed session ${sessionName}. Switched to ${DEFAULT_SESSION}` }],
+          isError: false
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: `Closed session ${sessionName}` }],
+        isError: false
+      };
+    }
+  }
+
+  const session = sessions.get(args.session || client.activeSessionName);
+  if (!session) {
+    const availableSessions = Array.from(sessions.keys()).join(", ");
+    return {
+      content: [{ type: "text", text: `Session ${args.session} not found. Available sessions: ${availableSessions}` }],
+      isError: true
+    };
+  }
+
+  // Handle browser lifecycle tools first (don't need ensureBrowser)
+  switch (name) {
+    case ToolName.BrowserLaunch: {
+      await closeBrowser(session);
+      session.recordedActions = [];
+      session.videos.clear();
+
+      const browserType = args.browserType || "chromium";
+      const headless = args.headless ?? false;
+      const cdpEndpoint = args.cdpEndpoint;
+      const debugPort = args.debugPort;
+
+      // Validate CDP only works with chromium
+      if (cdpEndpoint && browserType !== "chromium") {
+        return {
+          content: [{ type: "text", text: "CDP connection only works with chromium" }],
+          isError: true
+        };
+      }
+
+      // Validate debugPort cannot be used with cdpEndpoint
+      if (debugPort && cdpEndpoint) {
+        return {
+          content: [{ type: "text", text: "debugPort cannot be used with cdpEndpoint (connecting to existing browser)" }],
+          isError: true
+        };
+      }
+
+      // Validate HAR recording needs a context we create
+      if (args.recordHar && cdpEndpoint) {
+        return {
+          content: [{ type: "text", text: "recordHar cannot be used with cdpEndpoint (connecting to existing browser)" }],
+          isError: true
+        };
+      }
+
+      // Validate storage state needs a context we create
+      if (args.storageState && cdpEndpoint) {
+        return {
+          content: [{ type: "text", text: "storageState cannot be used with cdpEndpoint (connecting to existing browser)" }],
+          isError: true
+        };
+      }
+
+      // Validate video recording needs a context we create
+      if (args.recordVideo && cdpEndpoint) {
+        return {
+          content: [{ type: "text", text: "recordVideo cannot be used with cdpEndpoint (connecting to existing browser)" }],
+          isError: true
+        };
+      }
+
+      // Validate debugPort only works with chromium
+      if (debugPort && browserType !== "chromium") {
+        return {
+          content: [{ type: "text", text: "debugPort only works with chromium browser type" }],
+          isError: true
+        };
+      }
+
+      // Check the storage state before launching a browser that would be left without it
+      if (args.storageState) {
+        try {
+          await fs.access(getStorageStatePath(args.storageState));
+        } catch {
+          return {
+            content: [{ type: "text", text: `Storage state ${args.storageState} not found in ${config.stateDir}` }],
+            isError: true
+          };
+        }
+      }
+
+      // Replayed HARs are recorded ones or files in the upload directory
+      let replayPath: string | undefined;
+      if (args.replayHar) {
+        try {
+          replayPath = harFiles.get(args.replayHar.path) ?? await resolveUploadPath(args.replayHar.path);
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: (error as Error).message }],
+            isError: true
+          };
+        }
+      }
+
+      try {
+        // Handle cdpEndpoint path - connect to existing browser
+        if (cdpEndpoint) {
+          session.browser = await chromium.connectOverCDP(cdpEndpoint);
+          const contexts = session.browser.contexts();
+          session.context = contexts.length > 0 ? contexts[0] : await session.browser.newContext();
+        } else {
+          // Handle normal Playwright launch
+          const launchOptions: any = { headless };
           const launchArgs: string[] = [];
 
-          if (args.windowPosition && !headless) {
-            launchArgs.push(`--window-position=${args.windowPosition.x},${args.windowPosition.y}`);
-          }
+          if (args.windowPosition && !headless) {
+            launchArgs.push(`--window-position=${args.windowPosition.x},${args.windowPosition.y}`);
+          }
+
+          // Add remote debugging port if specified
+          if (debugPort) {
+            launchArgs.push(`--remote-debugging-port=${debugPort}`);
+          }
+
+          if (launchArgs.length > 0) {
+            launchOptions.args = launchArgs;
+          }
+
+          session.browser = await playwright[browserType as "chromium" | "firefox" | "webkit"].launch(launchOptions);
+
+          const contextOptions: any = {};
+          if (args.viewport) {
+            contextOptions.viewport = args.viewport;
+          }
+          if (args.storageState) {
+            contextOptions.storageState = getStorageStatePath(args.storageState);
+          }
+          if (args.recordHar) {
+            const harName = (args.recordHar.name || `session-${Date.now()}`).replace(/[^\w.-]/g, "_");
+            const harPath = path.join(HAR_DIR, `${harName}.har`);
+            await fs.mkdir(HAR_DIR, { recursive: true });
+            contextOptions.recordHar = {
+              path: harPath,
+              content: args.recordHar.content || "embed",
+              mode: args.recordHar.mode || "full",
+              urlFilter: args.recordHar.urlFilter,
+            };
+            session.harRecording = { name: harName, path: harPath };
+          }
+          if (args.recordVideo) {
+            await fs.mkdir(VIDEO_DIR, { recursive: true });
+            contextOptions.recordVideo = { dir: VIDEO_DIR, size: args.recordVideo.size };
+          }
+          session.context = await session.browser.newContext(contextOptions);
+        }
+
+        // Serve requests from a HAR file
+        if (replayPath) {
+          await session.context.routeFromHAR(replayPath, {
+            url: args.replayHar.url,
+            notFound: args.replayHar.notFound || "abort",
+          });
+        }
+
+        // Create first tab (or reuse existing for CDP reconnect)
+        let activePage: Page;
+        const existingPages = session.context.pages();
+
+        if (cdpEndpoint && existingPages.length > 0) {
+          // Reuse first existing page when connecting via CDP
+          activePage = existingPages[0];
+        } else {
+          activePage = await session.context.newPage();
+        }
+
+        const tabId = generateTabId(session);
+        session.tabs.set(tabId, { page: activePage, id: tabId });
+        session.activeTabId = tabId;
+        attachPageListeners(session, activePage);
+
+        let responseText = cdpEndpoint
+          ? `Connected to browser via CDP at ${cdpEndpoint}`
+          : `Launched ${browserType} (headless: ${headless})`;
+
+        if (debugPort) {
+          responseText += ` with remote debugging on port ${debugPort}`;
+        }
+        if (session.harRecording) {
+          responseText += `, recording HAR '${session.harRecording.name}'`;
+        }
+        if (args.replayHar) {
+          responseText += `, replaying HAR ${args.replayHar.path}`;
+        }
+        if (args.storageState) {
+          responseText += `, with storage state '${args.storageState}'`;
+        }
+        if (args.recordVideo) {
+          responseText += `, recording video`;
+        }
+        responseText += `. Active tab: ${tabId}`;
+
+        return {
+          content: [{ type: "text", text: responseText }],
+          isError: false
+        };
+      } catch (error) {
+        session.harRecording = undefined;
+        // Don't leave a half set up browser for later tools to reuse
+        await closeBrowser(session);
+        return {
+          content: [{ type: "text", text: `Failed to launch browser: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+    }
+
+    case ToolName.BrowserExportHar: {
+      if (!session.harRecording) {
+        return {
+          content: [{ type: "text", text: "HAR recording is not active. Launch the browser with recordHar to record traffic." }],
+          isError: true
+        };
+      }
+
+      const { name: harName, path: harPath } = session.harRecording;
+      // Drop a HAR of an earlier recording with the same name, so only a new file counts as written
+      harFiles.delete(harName);
+      try {
+        await fs.rm(harPath, { force: true });
+        await closeBrowser(session);
+      } finally {
+        session.harRecording = undefined;
+      }
+
+      if (!harFiles.has(harName)) {
+        return {
+          content: [{ type: "text", text: `Failed to write HAR file ${harPath}` }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: `HAR '${harName}' written to ${harPath} (resource: har://${harName}). The session's browser and tabs were closed; use browser_launch to continue.` }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserGetVideo: {
+      const tabId = args.tabId || session.activeTabId;
+      const entry = tabId ? session.videos.get(tabId) : undefined;
+      if (!entry) {
+        return {
+          content: [{ type: "text", text: `No video recorded for tab ${tabId}. Launch the browser with recordVideo to record videos.` }],
+          isError: true
+        };
+      }
+
+      const tab = session.tabs.get(tabId!);
+      if (!entry.path && tab) {
+        if (!args.close) {
+          return {
+            content: [{ type: "text", text: `Tab ${tabId} is still open. Close it, or pass close: true, to finalize its video.` }],
+            isError: true
+          };
+        }
+
+        try { await tab.page.close(); } catch {}
+        session.tabs.delete(tabId!);
+        if (session.activeTabId === tabId) {
+          session.activeTabId = session.tabs.keys().next().value;
+        }
+      }
+
+      try {
+        if (!entry.path) {
+          // saveAs waits for the video to be fully written
+          const videoPath = path.join(VIDEO_DIR, `${session.name}-${tabId}-${Date.now()}.webm`.replace(/[^\w.-]/g, "_"));
+          await entry.video.saveAs(videoPath);
+          try { await entry.video.delete(); } catch {}
+          entry.path = videoPath;
+        }
+        return {
+          content: [{ type: "text", text: `Video of tab ${tabId}: ${entry.path}` }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to save video: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+    }
+
+    case ToolName.BrowserListScreenshots: {
+      if (session.screenshots.size === 0) {
+        return {
+          content: [{ type: "text", text: "No screenshots" }],
+          isError: false
+        };
+      }
+
+      const screenshotList = Array.from(session.screenshots.values()).map(screenshot => ({
+        name: screenshot.name,
+        uri: sessionUri(session, `screenshot://${screenshot.name}`),
+        thumbnailUri: screenshot.thumbnailPath ? sessionUri(session, `thumbnail://${screenshot.name}`) : undefined,
+        mimeType: screenshot.mimeType,
+        width: screenshot.width,
+        height: screenshot.height,
+        size: screenshot.size,
+        tabId: screenshot.tabId,
+        url: screenshot.url,
+        timestamp: new Date(screenshot.timestamp).toISOString(),
+        path: screenshot.path,
+      }));
+      return {
+        content: [{ type: "text", text: JSON.stringify(screenshotList, null, 2) }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserDeleteScreenshot: {
+      if (args.all) {
+        const count = session.screenshots.size;
+        await deleteScreenshots(session, Array.from(session.screenshots.keys()));
+        return {
+          content: [{ type: "text", text: `Deleted ${count} screenshot(s)` }],
+          isError: false
+        };
+      }
+
+      if (!args.name || !session.screenshots.has(args.name)) {
+        return {
+          content: [{ type: "text", text: `Screenshot '${args.name}' not found` }],
+          isError: true
+        };
+      }
+
+      await deleteScreenshots(session, [args.name]);
+      return {
+        content: [{ type: "text", text: `Deleted screenshot '${args.name}'` }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserClose: {
+      if (!session.context) {
+        return {
+          content: [{ type: "text", text: "No browser is currently open" }],
+          isError: false
+        };
+      }
+      await closeBrowser(session);
+      return {
+        content: [{ type: "text", text: "Browser closed" }],
+        isError: false
+      };
+    }
+  }
+
+  // For all other tools, ensure browser exists
+  const page = await ensureBrowser(session);
+
+  switch (name) {
+    case ToolName.BrowserNavigate:
+      await page.goto(args.url);
+      recordAction(session, pageVar => `await ${pageVar}.goto(${quote(args.url)});`);
+      return {
+        content: [{
+          type: "text",
+            text: `Navigated to ${args.url}`,
+          }],
+        isError: false,
+      };
+
+    case ToolName.BrowserScreenshot: {
+      const fullPage = (args.fullPage === 'true' || args.fullPage === true);
+      const grayscale = args.grayscale === true; // Default false
+      const format: "png" | "jpeg" | "webp" = args.format || "png";
+
+      if (args.clip && (args.selector || args.frame !== undefined)) {
+        return {
+          content: [{ type: "text", text: "clip cannot be combined with selector or frame" }],
+          isError: true
+        };
+      }
+
+      const capture: ScreenshotCaptureOptions = {
+        selector: args.selector,
+        frame: args.frame,
+        fullPage,
+        clip: args.clip,
+        mask: args.mask,
+        maskColor: args.maskColor,
+        omitBackground: args.omitBackground,
+        animations: args.animations,
+        grayscale,
+        maxWidth: args.maxWidth,
+        maxHeight: args.maxHeight,
+        format,
+        quality: args.quality,
+      };
+      let screenshot: Buffer;
+      try {
+        screenshot = await captureScreenshot(page, capture);
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Screenshot failed: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+
+      const base64Screenshot = screenshot.toString('base64');
+      const mimeType = `image/${format}`;
+
+      if (!base64Screenshot) {
+        return {
+          content: [{
+            type: "text",
+            text: args.selector ? `Element not found: ${args.selector}` : "Screenshot failed",
+          }],
+          isError: true,
+        };
+      }
+
+      const screenshotName = args.overwrite ? args.name : getUniqueScreenshotName(session, args.name);
+      await storeScreenshot(session, screenshotName, screenshot, mimeType, {
+        tabId: session.activeTabId,
+        url: page.url(),
+        thumbnail: args.thumbnail,
+        capture,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: screenshotName === args.name
+              ? `Screenshot '${args.name}' taken`
+              : `Screenshot '${screenshotName}' taken ('${args.name}' already exists)`,
+          } as TextContent,
+          {
+            type: "image",
+              data: base64Screenshot,
+              mimeType,
+            } as ImageContent,
+          ],
+        isError: false,
+      };
+    }
+
+    case ToolName.BrowserPdf: {
+      const browserName = session.browser?.browserType().name() ?? "chromium";
+      if (browserName !== "chromium") {
+        return {
+          content: [{ type: "text", text: `PDF rendering is only supported in chromium, not ${browserName}` }],
+          isError: true
+        };
+      }
+
+      try {
+        const pdf = await page.pdf({
+          format: args.format,
+          width: args.width,
+          height: args.height,
+          margin: args.margin,
+          landscape: args.landscape,
+          printBackground: args.printBackground,
+          displayHeaderFooter: !!(args.headerTemplate || args.footerTemplate),
+          // Chromium prints its default header/footer for a missing template, so fall back to an empty one
+          headerTemplate: args.headerTemplate ?? (args.footerTemplate ? "<span></span>" : undefined),
+          footerTemplate: args.footerTemplate ?? (args.headerTemplate ? "<span></span>" : undefined),
+          pageRanges: args.pageRanges,
+          scale: args.scale,
+        });
+
+        // PDFs are kept on disk; the session only remembers where
+        const fileName = `${args.name.replace(/[^\w.-]/g, "_")}.pdf`;
+        const storedPath = path.join(getPdfDir(session), fileName);
+        await fs.mkdir(getPdfDir(session), { recursive: true });
+        await fs.writeFile(storedPath, pdf);
+        session.pdfs.set(args.name, storedPath);
+        notifyClients({
+          method: "notifications/resources/list_changed",
+        });
+
+        let responseText = `PDF '${args.name}' rendered (${pdf.length} bytes, resource: ${sessionUri(session, `pdf://${args.name}`)})`;
+        if (args.save) {
+          const pdfPath = path.join(config.outputDir, fileName);
+          await fs.copyFile(storedPath, pdfPath);
+          responseText += `, written to ${pdfPath}`;
+        }
+
+        return {
+          content: [{ type: "text", text: responseText }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to render PDF: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+    }
+
+    case ToolName.BrowserClick:
+      return runLocatorAction(session, page, args, "click", "click()",
+        locator => locator.click(), `Clicked: ${describeTarget(args)}`);
+
+    case ToolName.BrowserFill:
+      return runLocatorAction(session, page, args, "fill", `pressSequentially(${quote(args.value)}, { delay: 100 })`,
+        locator => locator.pressSequentially(args.value, { delay: 100 }), `Filled ${describeTarget(args)} with: ${args.value}`);
+
+    case ToolName.BrowserSelect:
+      return runLocatorAction(session, page, args, "select", `selectOption(${quote(args.value)})`,
+        locator => locator.selectOption(args.value), `Selected ${describeTarget(args)} with: ${args.value}`);
+
+    case ToolName.BrowserHover:
+      return runLocatorAction(session, page, args, "hover", "hover()",
+        locator => locator.hover(), `Hovered ${describeTarget(args)}`);
+
+    // The text tools run as the locator-based tools with a literal text locator
+    case ToolName.BrowserClickText:
+      return runLocatorAction(session, page, textToolArgs(args, ToolName.BrowserClick), "click", "click()",
+        locator => locator.click(), `Clicked element with text: ${args.text}`, `element with text ${args.text}`);
+
+    case ToolName.BrowserSelectText:
+      return runLocatorAction(session, page, textToolArgs(args, ToolName.BrowserSelect), "select", `selectOption(${quote(args.value)})`,
+        locator => locator.selectOption(args.value), `Selected element with text ${args.text} with value: ${args.value}`, `element with text ${args.text}`);
+
+    case ToolName.BrowserHoverText:
+      return runLocatorAction(session, page, textToolArgs(args, ToolName.BrowserHover), "hover", "hover()",
+        locator => locator.hover(), `Hovered element with text: ${args.text}`, `element with text ${args.text}`);
+
+    case ToolName.BrowserEvaluate:
+      try {
+        const frame = await getTargetFrame(page, args);
+        const result = await frame.evaluate((script) => {
+          const logs: string[] = [];
+          const originalConsole = { ...console };
+
+          ['log', 'info', 'warn', 'error'].forEach(method => {
+            (console as any)[method] = (...args: any[]) => {
+              logs.push(`[${method}] ${args.join(' ')}`);
+              (originalConsole as any)[method](...args);
+            };
+          });
+
+          try {
+            const result = eval(script);
+            Object.assign(console, originalConsole);
+            return { result, logs };
+          } catch (error) {
+            Object.assign(console, originalConsole);
+            throw error;
+          }
+        }, args.script);
+
+        return {
+          content: [
+            {
+                type: "text",
+                text: `Execution result:\n${JSON.stringify(result.result, null, 2)}\n\nConsole output:\n${result.logs.join('\n')}`,
+              },
+            ],
+          isError: false,
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+              text: `Script execution failed: ${(error as Error).message}`,
+            }],
+          isError: true,
+        };
+      }
+
+    case ToolName.BrowserGetLogs: {
+      const logTypes: string[] = args.logTypes || ["console", "network"];
+      const clear = args.clear ?? false;
+      const filter = args.filter || {};
+      const limit = args.limit ?? 100;
 
-          // Add remote debugging port if specified
-          if (debugPort) {
-            launchArgs.push(`--remote-debugging-port=${debugPort}`);
-          }
+      const result: any = {};
 
-          if (launchArgs.length > 0) {
-            launchOptions.args = launchArgs;
+      // Process console logs
+      if (logTypes.includes("console")) {
+        let filtered = [...session.consoleLogs];
+
+        if (filter.console) {
+          if (filter.console.types && filter.console.types.length > 0) {
+            filtered = filtered.filter(log => filter.console.types.includes(log.type));
           }
+          if (filter.console.search) {
+            const searchLower = filter.console.search.toLowerCase();
+            filtered = filtered.filter(log => log.text.toLowerCase().includes(searchLower));
+          }
+        }
+
+        // Apply limit (most recent first)
+        result.console = {
+          total: session.consoleLogs.length,
+          filtered: filtered.length,
+          entries: filtered.slice(-limit).reverse()
+        };
+      }
 
-          browser = await playwright[browserType as "chromium" | "firefox" | "webkit"].launch(launchOptions);
+      // Process network logs
+      if (logTypes.includes("network")) {
+        let filtered = [...session.networkLogs];
 
-          const contextOptions: any = {};
-          if (args.viewport) {
-            contextOptions.viewport = args.viewport;
+        if (filter.network) {
+          if (filter.network.methods && filter.network.methods.length > 0) {
+            const methods = filter.network.methods.map((m: string) => m.toUpperCase());
+            filtered = filtered.filter(log => methods.includes(log.method));
+          }
+          if (filter.network.statusCodes && filter.network.statusCodes.length > 0) {
+            filtered = filtered.filter(log =>
+              log.status !== undefined && filter.network.statusCodes.includes(log.status)
+            );
+          }
+          if (filter.network.statusRange) {
+            const { min, max } = filter.network.statusRange;
+            filtered = filtered.filter(log =>
+              log.status !== undefined && log.status >= min && log.status <= max
+            );
+          }
+          if (filter.network.urlPattern) {
+            const regex = new RegExp(filter.network.urlPattern, 'i');
+            filtered = filtered.filter(log => regex.test(log.url));
+          }
+          if (filter.network.resourceTypes && filter.network.resourceTypes.length > 0) {
+            filtered = filtered.filter(log =>
+              filter.network.resourceTypes.includes(log.resourceType)
+            );
+          }
+          if (filter.network.failedOnly) {
+            filtered = filtered.filter(log => log.type === 'requestfailed');
           }
-          context = await browser.newContext(contextOptions);
         }
 
-        // Create first tab (or reuse existing for CDP reconnect)
-        let activePage: Page;
-        const existingPages = context.pages();
+        // Apply limit (most recent first)
+        // Headers and post data are omitted unless requested to keep the output compact
+        const entries = filtered.slice(-limit).reverse();
+        result.network = {
+          total: session.networkLogs.length,
+          filtered: filtered.length,
+          entries: args.includeHeaders
+            ? entries
+            : entries.map(({ requestHeaders, postData, responseHeaders, ...entry }) => entry)
+        };
+      }
 
-        if (cdpEndpoint && existingPages.length > 0) {
-          // Reuse first existing page when connecting via CDP
-          activePage = existingPages[0];
-        } else {
-          activePage = await context.newPage();
+      // Clear logs if requested
+      if (clear) {
+        if (logTypes.includes("console")) {
+          session.consoleLogs.length = 0;
+        }
+        if (logTypes.includes("network")) {
+          session.networkLogs.length = 0;
+          session.networkObjects.clear();
         }
+      }
 
-        const tabId = generateTabId();
-        tabs.set(tabId, { page: activePage, id: tabId });
-        activeTabId = tabId;
-        attachPageListeners(activePage);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }],
+        isError: false
+      };
+    }
 
-        let responseText = cdpEndpoint
-          ? `Connected to browser via CDP at ${cdpEndpoint}`
-          : `Launched ${browserType} (headless: ${headless})`;
+    case ToolName.BrowserGetNetworkEntry: {
+      const entries = session.networkLogs.filter(log => log.id === args.id);
 
-        if (debugPort) {
-          responseText += ` with remote debugging on port ${debugPort}`;
+      if (entries.length === 0) {
+        return {
+          content: [{ type: "text", text: `Network entry ${args.id} not found` }],
+          isError: true
+        };
+      }
+
+      const requestEntry = entries.find(log => log.type === 'request');
+      const finalEntry = entries.find(log => log.type !== 'request');
+      const detail: any = {
+        id: args.id,
+        url: entries[0].url,
+        method: entries[0].method,
+        resourceType: entries[0].resourceType,
+        timestamp: entries[0].timestamp,
+        requestHeaders: requestEntry?.requestHeaders,
+        postData: requestEntry?.postData,
+        status: finalEntry?.status,
+        statusText: finalEntry?.statusText,
+        duration: finalEntry?.duration,
+        timing: finalEntry?.timing,
+        errorText: finalEntry?.errorText,
+        responseHeaders: finalEntry?.responseHeaders,
+      };
+
+      const objects = session.networkObjects.get(args.id);
+      if (objects?.response) {
+        try {
+          detail.sizes = await objects.request.sizes();
+        } catch {}
+
+        if (args.includeBody) {
+          const contentType = objects.response.headers()["content-type"];
+          if (!isTextContentType(contentType)) {
+            detail.body = `(body not captured: content type ${contentType || "unknown"} is not text)`;
+          } else {
+            const maxBodyLength = Math.min(args.maxBodyLength ?? DEFAULT_RESPONSE_BODY_LENGTH, MAX_RESPONSE_BODY_LENGTH);
+            try {
+              const body = await objects.response.text();
+              detail.body = body.length > maxBodyLength
+                ? `${body.slice(0, maxBodyLength)}... (${body.length} characters)`
+                : body;
+            } catch (error) {
+              detail.body = `(body no longer available: ${(error as Error).message})`;
+            }
+          }
         }
-        responseText += `. Active tab: ${tabId}`;
+      } else if (args.includeBody) {
+        detail.body = "(no response received)";
+      }
 
+      return {
+        content: [{ type: "text", text: JSON.stringify(detail, null, 2) }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserNewTab: {
+      if (!session.context) {
         return {
-          content: [{ type: "text", text: responseText }],
+          content: [{ type: "text", text: "No browser is open. Use browser_launch first." }],
+          isError: true
+        };
+      }
+
+      try {
+        const newPage = await session.context.newPage();
+        const tabId = generateTabId(session);
+        session.tabs.set(tabId, { page: newPage, id: tabId });
+        session.activeTabId = tabId;
+        attachPageListeners(session, newPage);
+
+        // Navigate to URL if provided
+        if (args.url) {
+          await newPage.goto(args.url);
+          recordAction(session, pageVar => `await ${pageVar}.goto(${quote(args.url)});`);
+          return {
+            content: [{ type: "text", text: `Opened new tab ${tabId} and navigated to ${args.url}` }],
+            isError: false
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: `Opened new tab ${tabId} (now active)` }],
           isError: false
         };
       } catch (error) {
         return {
-          content: [{ type: "text", text: `Failed to launch browser: ${(error as Error).message}` }],
+          content: [{ type: "text", text: `Failed to open new tab: ${(error as Error).message}` }],
           isError: true
         };
       }
     }
 
-    case ToolName.BrowserClose: {
-      if (!browser) {
+    case ToolName.BrowserListTabs: {
+      if (session.tabs.size === 0) {
         return {
-          content: [{ type: "text", text: "No browser is currently open" }],
+          content: [{ type: "text", text: "No tabs are open" }],
           isError: false
         };
       }
-      await closeBrowser();
-      return {
-        content: [{ type: "text", text: "Browser closed" }],
-        isError: false
-      };
+
+      try {
+        const tabList = await Promise.all(
+          Array.from(session.tabs.values()).map(async (tab) => {
+            const url = tab.page.url();
+            const title = await tab.page.title();
+            const isActive = tab.id === session.activeTabId;
+            return {
+              id: tab.id,
+              url,
+              title,
+              active: isActive
+            };
+          })
+        );
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(tabList, null, 2) }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to list tabs: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
     }
-  }
 
-  // For all other tools, ensure browser exists
-  const page = await ensureBrowser();
+    case ToolName.BrowserSwitchTab: {
+      const tabId = args.tabId;
+
+      if (!session.tabs.has(tabId)) {
+        const availableTabs = Array.from(session.tabs.keys()).join(", ");
+        return {
+          content: [{ type: "text", text: `Tab ${tabId} not found. Available tabs: ${availableTabs || "none"}` }],
+          isError: true
+        };
+      }
+
+      session.activeTabId = tabId;
+      const tab = session.tabs.get(tabId)!;
+
+      // Bring the tab to front
+      try {
+        await tab.page.bringToFront();
+      } catch {}
+
+      const url = tab.page.url();
+      const title = await tab.page.title();
 
-  switch (name) {
-    case ToolName.BrowserNavigate:
-      await page.goto(args.url);
       return {
-        content: [{
-          type: "text",
-            text: `Navigated to ${args.url}`,
-          }],
-        isError: false,
+        content: [{ type: "text", text: `Switched to tab ${tabId} (${title || url})` }],
+        isError: false
       };
+    }
 
-    case ToolName.BrowserScreenshot: {
-      const fullPage = (args.fullPage === 'true' || args.fullPage === true);
-      const grayscale = args.grayscale !== false; // Default true
+    case ToolName.BrowserCloseTab: {
+      const tabId = args.tabId || session.activeTabId;
 
-      let screenshot = await (args.selector ?
-        page.locator(args.selector).screenshot() :
-        page.screenshot({ fullPage }));
+      if (!tabId) {
+        return {
+          content: [{ type: "text", text: "No tab specified and no active tab" }],
+          isError: true
+        };
+      }
 
-      // Convert to grayscale if enabled (reduces size by ~76%)
-      if (grayscale) {
-        screenshot = await sharp(screenshot)
-          .grayscale()
-          .png()
-          .toBuffer();
+      if (!session.tabs.has(tabId)) {
+        return {
+          content: [{ type: "text", text: `Tab ${tabId} not found` }],
+          isError: true
+        };
       }
 
-      const base64Screenshot = screenshot.toString('base64');
+      const tab = session.tabs.get(tabId)!;
 
-      if (!base64Screenshot) {
+      // Run the page's beforeunload handler, unless a held dialog blocks the page
+      const blocked = Array.from(session.pendingDialogs.values()).some(pending => pending.dialog.page() === tab.page);
+      const closed = tab.page.waitForEvent("close", { timeout: 0 }).then(() => undefined, () => undefined);
+      const unloadDialog = tab.page.waitForEvent("dialog", {
+        timeout: 0,
+        predicate: dialog => dialog.type() === "beforeunload"
+      }).catch(() => undefined);
+      try {
+        await tab.page.close({ runBeforeUnload: !blocked });
+      } catch {}
+
+      // A dismissed beforeunload dialog keeps the page open
+      if (await Promise.race([closed, unloadDialog]) && session.dialogPolicy === 'dismiss') {
         return {
-          content: [{
-            type: "text",
-            text: args.selector ? `Element not found: ${args.selector}` : "Screenshot failed",
-          }],
-          isError: true,
+          content: [{ type: "text", text: `Tab ${tabId} stayed open: its beforeunload dialog was dismissed. Set the dialog policy to accept to leave the page.` }],
+          isError: true
         };
       }
+      await closed;
 
-      screenshots.set(args.name, base64Screenshot);
-      server.notification({
-        method: "notifications/resources/list_changed",
-      });
+      session.tabs.delete(tabId);
+
+      // If we closed the active tab, switch to another one
+      if (session.activeTabId === tabId) {
+        const remainingTabs = Array.from(session.tabs.keys());
+        if (remainingTabs.length > 0) {
+          session.activeTabId = remainingTabs[0];
+          return {
+            content: [{ type: "text", text: `Closed tab ${tabId}. Switched to ${session.activeTabId}` }],
+            isError: false
+          };
+        } else {
+          session.activeTabId = undefined;
+          return {
+            content: [{ type: "text", text: `Closed tab ${tabId}. No tabs remaining.` }],
+            isError: false
+          };
+        }
+      }
 
       return {
-        content: [
-          {
-            type: "text",
-            text: `Screenshot '${args.name}' taken`,
-          } as TextContent,
-          {
-            type: "image",
-              data: base64Screenshot,
-              mimeType: "image/png",
-            } as ImageContent,
-          ],
-        isError: false,
+        content: [{ type: "text", text: `Closed tab ${tabId}` }],
+        isError: false
       };
     }
 
-    case ToolName.BrowserClick:
+    case ToolName.BrowserWaitForSelector: {
+      const selector = args.selector;
+      const state = args.state || "visible";
+      const timeout = args.timeout ?? 30000;
+      const startTime = Date.now();
+
       try {
-        await page.locator(args.selector).click();
+        const frame = await getTargetFrame(page, args);
+        await frame.waitForSelector(selector, { state, timeout });
+        const frameCode = frame === page.mainFrame() ? "" : `${await getFrameLocatorCode(frame)}.`;
+        recordAction(session, pageVar => `await ${pageVar}.${frameCode}locator(${quote(selector)}).first().waitFor({ state: ${quote(state)} });`);
+        const elapsed = Date.now() - startTime;
         return {
           content: [{
             type: "text",
-            text: `Clicked: ${args.selector}`,
+            text: `Selector "${selector}" reached state "${state}" after ${elapsed}ms`
           }],
-          isError: false,
+          isError: false
         };
       } catch (error) {
-        if((error as Error).message.includes("strict mode violation")) {
-            console.log("Strict mode violation, retrying on first element...");
-            try {
-                await page.locator(args.selector).first().click();
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Clicked: ${args.selector}`,
-                    }],
-                    isError: false,
-                };
-            } catch (error) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Failed (twice) to click ${args.selector}: ${(error as Error).message}`,
-                    }],
-                    isError: true,
-                };
-            }
-        }
-        
+        const elapsed = Date.now() - startTime;
         return {
           content: [{
             type: "text",
-            text: `Failed to click ${args.selector}: ${(error as Error).message}`,
+            text: `Timeout: Waited ${elapsed}ms for selector "${selector}" to reach state "${state}". ${(error as Error).message}`
           }],
-          isError: true,
+          isError: true
         };
       }
+    }
+
+    case ToolName.BrowserWaitForLoadState: {
+      const state = args.state as "load" | "domcontentloaded" | "networkidle";
+      const timeout = args.timeout ?? 30000;
+      const startTime = Date.now();
 
-    case ToolName.BrowserClickText:
       try {
-        await page.getByText(args.text).click();
+        const frame = await getTargetFrame(page, args);
+        await frame.waitForLoadState(state, { timeout });
+        // Frames have no locator equivalent, so only waits on the page are recorded
+        if (frame === page.mainFrame()) {
+          recordAction(session, pageVar => `await ${pageVar}.waitForLoadState(${quote(state)});`);
+        }
+        const elapsed = Date.now() - startTime;
         return {
           content: [{
             type: "text",
-            text: `Clicked element with text: ${args.text}`,
+            text: `Page reached load state "${state}" after ${elapsed}ms`
           }],
-          isError: false,
+          isError: false
         };
       } catch (error) {
-        if((error as Error).message.includes("strict mode violation")) {
-            console.log("Strict mode violation, retrying on first element...");
-            try {
-                await page.getByText(args.text).first().click();
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Clicked element with text: ${args.text}`,
-                    }],
-                    isError: false,
-                };
-            } catch (error) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Failed (twice) to click element with text ${args.text}: ${(error as Error).message}`,
-                    }],
-                    isError: true,
-                };
-            }
-        }
+        const elapsed = Date.now() - startTime;
         return {
           content: [{
             type: "text",
-            text: `Failed to click element with text ${args.text}: ${(error as Error).message}`,
+            text: `Timeout: Waited ${elapsed}ms for load state "${state}". ${(error as Error).message}`
           }],
-          isError: true,
+          isError: true
         };
       }
+    }
+
+    case ToolName.BrowserWaitForUrl: {
+      const url = args.url;
+      const timeout = args.timeout ?? 30000;
+      const startTime = Date.now();
 
-    case ToolName.BrowserFill:
       try {
-        await page.locator(args.selector).pressSequentially(args.value, { delay: 100 });
+        const frame = await getTargetFrame(page, args);
+        await frame.waitForURL(url, { timeout });
+        if (frame === page.mainFrame()) {
+          recordAction(session, pageVar => `await ${pageVar}.waitForURL(${quote(url)});`);
+        }
+        const elapsed = Date.now() - startTime;
+        const currentUrl = frame.url();
         return {
           content: [{
             type: "text",
-              text: `Filled ${args.selector} with: ${args.value}`,
-            }],
-          isError: false,
+            text: `URL matched pattern "${url}" after ${elapsed}ms. Current URL: ${currentUrl}`
+          }],
+          isError: false
         };
       } catch (error) {
-        if((error as Error).message.includes("strict mode violation")) {
-            console.log("Strict mode violation, retrying on first element...");
-            try {
-                await page.locator(args.selector).first().pressSequentially(args.value, { delay: 100 });
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Filled ${args.selector} with: ${args.value}`,
-                    }],
-                    isError: false,
-                };
-            } catch (error) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Failed (twice) to fill ${args.selector}: ${(error as Error).message}`,
-                    }],
-                    isError: true,
-                };
-            }
-        }
+        const elapsed = Date.now() - startTime;
+        const currentUrl = page.url();
         return {
           content: [{
             type: "text",
-              text: `Failed to fill ${args.selector}: ${(error as Error).message}`,
-            }],
-          isError: true,
+            text: `Timeout: Waited ${elapsed}ms for URL to match "${url}". Current URL: ${currentUrl}. ${(error as Error).message}`
+          }],
+          isError: true
         };
       }
+    }
+
+    case ToolName.BrowserWaitForFunction: {
+      const expression = args.expression;
+      const timeout = args.timeout ?? 30000;
+      const polling = args.polling ?? "raf";
+      const startTime = Date.now();
 
-    case ToolName.BrowserSelect:
       try {
-        await page.locator(args.selector).selectOption(args.value);
+        const frame = await getTargetFrame(page, args);
+        const result = await frame.waitForFunction(expression, { timeout, polling });
+        if (frame === page.mainFrame()) {
+          recordAction(session, pageVar => `await ${pageVar}.waitForFunction(${quote(expression)});`);
+        }
+        const elapsed = Date.now() - startTime;
+        const value = await result.jsonValue();
         return {
           content: [{
             type: "text",
-              text: `Selected ${args.selector} with: ${args.value}`,
-            }],
-          isError: false,
+            text: `Function returned truthy after ${elapsed}ms. Result: ${JSON.stringify(value)}`
+          }],
+          isError: false
         };
       } catch (error) {
-        if((error as Error).message.includes("strict mode violation")) {
-            console.log("Strict mode violation, retrying on first element...");
-            try {
-                await page.locator(args.selector).first().selectOption(args.value);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Selected ${args.selector} with: ${args.value}`,
-                    }],
-                    isError: false,
-                };
-            } catch (error) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Failed (twice) to select ${args.selector}: ${(error as Error).message}`,
-                    }],
-                    isError: true,
-                };
-            }
-        }
+        const elapsed = Date.now() - startTime;
         return {
           content: [{
             type: "text",
-              text: `Failed to select ${args.selector}: ${(error as Error).message}`,
-            }],
-          isError: true,
+            text: `Timeout: Waited ${elapsed}ms for function to return truthy. Expression: "${expression}". ${(error as Error).message}`
+          }],
+          isError: true
         };
       }
+    }
 
-    case ToolName.BrowserSelectText:
+    case ToolName.BrowserSnapshot: {
       try {
-        await page.getByText(args.text).selectOption(args.value);
+        const frame = await getTargetFrame(page, args);
+        // Playwright's AI snapshot assigns the refs that aria-ref selectors resolve, iframes included
+        let snapshot = await frame.locator(args.selector || "body").ariaSnapshot({ mode: "ai" });
+        if (args.interactiveOnly) {
+          snapshot = filterInteractiveLines(snapshot);
+        }
+        const title = await frame.title();
         return {
           content: [{
             type: "text",
-            text: `Selected element with text ${args.text} with value: ${args.value}`,
+            text: `Page: ${title}\nURL: ${frame.url()}\n\n${snapshot || "(no accessible content)"}`
           }],
-          isError: false,
+          isError: false
         };
       } catch (error) {
-        if((error as Error).message.includes("strict mode violation")) {
-            console.log("Strict mode violation, retrying on first element...");
-            try {
-                await page.getByText(args.text).first().selectOption(args.value);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Selected element with text ${args.text} with value: ${args.value}`,
-                    }],
-                    isError: false,
-                };
-            } catch (error) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Failed (twice) to select element with text ${args.text}: ${(error as Error).message}`,
-                    }],
-                    isError: true,
-                };
-            }
-        }
         return {
-          content: [{
-            type: "text",
-            text: `Failed to select element with text ${args.text}: ${(error as Error).message}`,
-          }],
-          isError: true,
+          content: [{ type: "text", text: `Failed to capture snapshot: ${(error as Error).message}` }],
+          isError: true
         };
       }
+    }
 
-    case ToolName.BrowserHover:
+    case ToolName.BrowserGetContent: {
       try {
-        await page.locator(args.selector).hover();
+        const frame = await getTargetFrame(page, args);
+        const content = await frame.locator(args.selector || "body").evaluate(buildPageContent, {
+          format: args.format || "markdown",
+          includeBoilerplate: args.includeBoilerplate ?? false,
+        });
+        const offset = Math.max(args.offset ?? 0, 0);
+        const maxLength = Math.min(args.maxLength ?? DEFAULT_CONTENT_LENGTH, MAX_CONTENT_LENGTH);
+        const end = Math.min(offset + maxLength, content.length);
+
+        let text = `Page: ${await frame.title()}\nURL: ${frame.url()}\n\n${content.slice(offset, end) || "(no content)"}`;
+        if (offset > 0 || end < content.length) {
+          text += `\n\n[Characters ${offset}-${end} of ${content.length}`;
+          text += end < content.length ? `. Use offset ${end} to read more.]` : "]";
+        }
         return {
-          content: [{
-            type: "text",
-              text: `Hovered ${args.selector}`,
-            }],
-          isError: false,
+          content: [{ type: "text", text }],
+          isError: false
         };
       } catch (error) {
-        if((error as Error).message.includes("strict mode violation")) {
-            console.log("Strict mode violation, retrying on first element...");
+        return {
+          content: [{ type: "text", text: `Failed to get content: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+    }
+
+    case ToolName.BrowserExtract: {
+      const mode = args.mode || "rows";
+      if (mode === "rows" && !args.rowSelector) {
+        return {
+          content: [{ type: "text", text: "rowSelector is required unless mode is 'tables' or 'lists'" }],
+          isError: true
+        };
+      }
+
+      const maxPages = args.nextSelector ? args.maxPages ?? DEFAULT_EXTRACT_PAGES : 1;
+      const maxRows = args.maxRows ?? DEFAULT_EXTRACT_ROWS;
+
+      try {
+        const frame = await getTargetFrame(page, args);
+        const extractPage = () => frame.locator(args.selector || "body").evaluate(extractStructuredData, {
+          mode,
+          rowSelector: args.rowSelector,
+          fields: args.fields,
+        });
+        const results: unknown[] = [];
+        let pageData = await extractPage();
+        let pages = 1;
+        let stopReason: string | undefined;
+
+        while (true) {
+          results.push(...pageData);
+          if (!args.nextSelector) break;
+          if (results.length >= maxRows) {
+            stopReason = "maxRows reached";
+            break;
+          }
+          if (pages >= maxPages) {
+            stopReason = "maxPages reached";
+            break;
+          }
+
+          const next = frame.locator(args.nextSelector).first();
+          if (!(await next.isVisible()) || !(await next.isEnabled()) || (await next.getAttribute("aria-disabled")) === "true") {
+            stopReason = "no next page";
+            break;
+          }
+          await next.click();
+
+          // Wait for the data to change, which also covers pages that navigate
+          const previous = JSON.stringify(pageData);
+          const deadline = Date.now() + 10000;
+          let changed = false;
+          while (Date.now() < deadline) {
+            await page.waitForTimeout(250);
             try {
-                await page.locator(args.selector).first().hover();
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Hovered ${args.selector}`,
-                    }],
-                    isError: false,
-                };
-            } catch (error) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Failed to hover ${args.selector}: ${(error as Error).message}`,
-                    }],
-                    isError: true,
-                };
+              await frame.waitForLoadState("domcontentloaded");
+              pageData = await extractPage();
+            } catch {
+              continue; // The page is navigating
             }
+            if (JSON.stringify(pageData) !== previous) {
+              changed = true;
+              break;
+            }
+          }
+          if (!changed) {
+            stopReason = "data did not change after clicking next";
+            break;
+          }
+          pages++;
         }
+
+        const result = {
+          pages,
+          count: Math.min(results.length, maxRows),
+          truncated: results.length > maxRows || undefined,
+          stopReason,
+          [mode === "rows" ? "rows" : mode]: results.slice(0, maxRows),
+        };
         return {
-          content: [{
-            type: "text",
-              text: `Failed to hover ${args.selector}: ${(error as Error).message}`,
-            }],
-          isError: true,
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to extract data: ${(error as Error).message}` }],
+          isError: true
         };
       }
+    }
+
+    case ToolName.BrowserFillForm: {
+      const results: { field: string; kind?: FormFieldKind; status: "filled" | "failed" | "skipped"; error?: string }[] = [];
+      let failed = false;
+
+      for (const field of args.fields as any[]) {
+        const description = hasTarget(field) ? describeTarget(field) : "(no locator, selector or ref)";
+        if (failed && args.stopOnError) {
+          results.push({ field: description, status: "skipped" });
+          continue;
+        }
+
+        let kind: FormFieldKind | undefined;
+        try {
+          const fieldArgs = { ...field, frame: args.frame, ambiguity: args.ambiguity, ambiguityIndex: args.ambiguityIndex };
+          const matches = await resolveTarget(page, fieldArgs);
+          kind = !field.kind || field.kind === "auto" ? await detectFieldKind(matches) : field.kind as FormFieldKind;
+          // A radio field may match the whole group and pick the radio by its value
+          const { locator, code } = kind === "radio"
+            ? { locator: matches, code: await getLocatorCode(page, fieldArgs) }
+            : await resolveElement(page, fieldArgs);
+          const call = await fillFormField(locator, kind, field.value);
+          recordLocatorAction(session, code, call);
+          results.push({ field: description, kind, status: "filled" });
+        } catch (error) {
+          failed = true;
+          results.push({ field: description, kind, status: "failed", error: (error as Error).message.split("\nCall log:")[0] });
+        }
+      }
+
+      const filledCount = results.filter(result => result.status === "filled").length;
+      return {
+        content: [{
+          type: "text",
+          text: `Filled ${filledCount} of ${results.length} field(s)\n${JSON.stringify(results, null, 2)}`
+        }],
+        isError: failed
+      };
+    }
+
+    case ToolName.BrowserListFrames: {
+      try {
+        const frames = page.frames();
+        const frameList = await Promise.all(frames.map(async (frame, index) => {
+          const parent = frame.parentFrame();
+          let boundingBox = null;
+          let selector: string[] | undefined;
+          if (parent) {
+            const frameElement = await frame.frameElement();
+            boundingBox = await frameElement.boundingBox();
+            await frameElement.dispose();
+            selector = await getFrameSelectors(frame);
+          }
+          return {
+            index,
+            name: frame.name(),
+            url: frame.url(),
+            parent: parent ? frames.indexOf(parent) : null,
+            boundingBox,
+            selector,
+          };
+        }));
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(frameList, null, 2) }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to list frames: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+    }
+
+    case ToolName.BrowserSaveStorageState: {
+      const statePath = getStorageStatePath(args.name);
 
-    case ToolName.BrowserHoverText:
       try {
-        await page.getByText(args.text).hover();
+        // Storage states hold session cookies and tokens, so only the user may read them
+        await fs.mkdir(config.stateDir, { recursive: true, mode: 0o700 });
+        const state = await session.context!.storageState({
+          indexedDB: args.indexedDB ?? true,
+        });
+        await fs.writeFile(statePath, JSON.stringify(state, null, 2), { mode: 0o600 });
+        // An existing file keeps its mode when overwritten
+        await fs.chmod(statePath, 0o600);
         return {
           content: [{
             type: "text",
-            text: `Hovered element with text: ${args.text}`,
+            text: `Saved storage state '${args.name}' to ${statePath} (${state.cookies.length} cookies, ${state.origins.length} origins)`
           }],
-          isError: false,
+          isError: false
         };
       } catch (error) {
-        if((error as Error).message.includes("strict mode violation")) {
-            console.log("Strict mode violation, retrying on first element...");
-            try {
-                await page.getByText(args.text).first().hover();
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Hovered element with text: ${args.text}`,
-                    }],
-                    isError: false,
-                };
-            } catch (error) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Failed (twice) to hover element with text ${args.text}: ${(error as Error).message}`,
-                    }],
-                    isError: true,
-                };
-            }
+        return {
+          content: [{ type: "text", text: `Failed to save storage state: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+    }
+
+    case ToolName.BrowserLoadStorageState: {
+      const statePath = getStorageStatePath(args.name);
+
+      try {
+        await fs.access(statePath);
+      } catch {
+        return {
+          content: [{ type: "text", text: `Storage state ${args.name} not found in ${config.stateDir}` }],
+          isError: true
+        };
+      }
+
+      try {
+        await session.context!.setStorageState(statePath);
+        return {
+          content: [{ type: "text", text: `Loaded storage state '${args.name}'. Reload or navigate open tabs to pick it up.` }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to load storage state: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+    }
+
+    case ToolName.BrowserGetCookies: {
+      try {
+        let cookies = await session.context!.cookies(args.urls);
+
+        if (args.domain) {
+          const domainPattern = getCookieDomainPattern(args.domain);
+          cookies = cookies.filter(cookie => domainPattern.test(cookie.domain));
         }
+        if (args.name) {
+          cookies = cookies.filter(cookie => cookie.name === args.name);
+        }
+
+        const cookieList = cookies.map(cookie => ({
+          name: cookie.name,
+          value: cookie.value,
+          domain: cookie.domain,
+          path: cookie.path,
+          expires: cookie.expires === -1 ? "session" : new Date(cookie.expires * 1000).toISOString(),
+          httpOnly: cookie.httpOnly,
+          secure: cookie.secure,
+          sameSite: cookie.sameSite
+        }));
+
         return {
           content: [{
             type: "text",
-            text: `Failed to hover element with text ${args.text}: ${(error as Error).message}`,
+            text: cookieList.length > 0 ? JSON.stringify(cookieList, null, 2) : "No cookies found"
           }],
-          isError: true,
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to get cookies: ${(error as Error).message}` }],
+          isError: true
         };
       }
+    }
 
-    case ToolName.BrowserEvaluate:
+    case ToolName.BrowserSetCookies: {
       try {
-        const result = await page.evaluate((script) => {
-          const logs: string[] = [];
-          const originalConsole = { ...console };
-
-          ['log', 'info', 'warn', 'error'].forEach(method => {
-            (console as any)[method] = (...args: any[]) => {
-              logs.push(`[${method}] ${args.join(' ')}`);
-              (originalConsole as any)[method](...args);
-            };
-          });
+        await session.context!.addCookies(args.cookies);
+        return {
+          content: [{
+            type: "text",
+            text: `Set ${args.cookies.length} cookie(s): ${args.cookies.map((cookie: any) => cookie.name).join(", ")}`
+          }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to set cookies: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+    }
 
-          try {
-            const result = eval(script);
-            Object.assign(console, originalConsole);
-            return { result, logs };
-          } catch (error) {
-            Object.assign(console, originalConsole);
-            throw error;
-          }
-        }, args.script);
+    case ToolName.BrowserClearCookies: {
+      const filter: { name?: string; domain?: RegExp; path?: string } = {};
+      if (args.name) filter.name = args.name;
+      if (args.domain) filter.domain = getCookieDomainPattern(args.domain);
+      if (args.path) filter.path = args.path;
 
+      try {
+        const before = (await session.context!.cookies()).length;
+        await session.context!.clearCookies(filter);
+        const after = (await session.context!.cookies()).length;
         return {
-          content: [
-            {
-                type: "text",
-                text: `Execution result:\n${JSON.stringify(result.result, null, 2)}\n\nConsole output:\n${result.logs.join('\n')}`,
-              },
-            ],
-          isError: false,
+          content: [{ type: "text", text: `Cleared ${before - after} cookie(s)` }],
+          isError: false
         };
       } catch (error) {
         return {
-          content: [{
-            type: "text",
-              text: `Script execution failed: ${(error as Error).message}`,
-            }],
-          isError: true,
+          content: [{ type: "text", text: `Failed to clear cookies: ${(error as Error).message}` }],
+          isError: true
         };
       }
+    }
 
-    case ToolName.BrowserGetLogs: {
-      const logTypes: string[] = args.logTypes || ["console", "network"];
-      const clear = args.clear ?? false;
-      const filter = args.filter || {};
-      const limit = args.limit ?? 100;
+    case ToolName.BrowserRoute: {
+      if (!session.context) {
+        return {
+          content: [{ type: "text", text: "No browser is open. Use browser_launch first." }],
+          isError: true
+        };
+      }
 
-      const result: any = {};
+      const action = args.action || "fulfill";
 
-      // Process console logs
-      if (logTypes.includes("console")) {
-        let filtered = [...consoleLogs];
+      if (action === "fulfill" && args.body !== undefined && args.path) {
+        return {
+          content: [{ type: "text", text: "Specify either body or path for fulfill, not both" }],
+          isError: true
+        };
+      }
 
-        if (filter.console) {
-          if (filter.console.types && filter.console.types.length > 0) {
-            filtered = filtered.filter(log => filter.console.types.includes(log.type));
-          }
-          if (filter.console.search) {
-            const searchLower = filter.console.search.toLowerCase();
-            filtered = filtered.filter(log => log.text.toLowerCase().includes(searchLower));
-          }
+      let matcher: string | RegExp = args.url;
+      if (args.regex) {
+        try {
+          matcher = new RegExp(args.url);
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Invalid URL regex: ${(error as Error).message}` }],
+            isError: true
+          };
         }
-
-        // Apply limit (most recent first)
-        result.console = {
-          total: consoleLogs.length,
-          filtered: filtered.length,
-          entries: filtered.slice(-limit).reverse()
-        };
       }
 
-      // Process network logs
-      if (logTypes.includes("network")) {
-        let filtered = [...networkLogs];
+      let bodyPath: string | undefined;
+      if (action === "fulfill" && args.path) {
+        try {
+          bodyPath = await resolveUploadPath(args.path);
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: (error as Error).message }],
+            isError: true
+          };
+        }
+      }
 
-        if (filter.network) {
-          if (filter.network.methods && filter.network.methods.length > 0) {
-            const methods = filter.network.methods.map((m: string) => m.toUpperCase());
-            filtered = filtered.filter(log => methods.includes(log.method));
-          }
-          if (filter.network.statusCodes && filter.network.statusCodes.length > 0) {
-            filtered = filtered.filter(log =>
-              log.status !== undefined && filter.network.statusCodes.includes(log.status)
-            );
-          }
-          if (filter.network.statusRange) {
-            const { min, max } = filter.network.statusRange;
-            filtered = filtered.filter(log =>
-              log.status !== undefined && log.status >= min && log.status <= max
-            );
-          }
-          if (filter.network.urlPattern) {
-            const regex = new RegExp(filter.network.urlPattern, 'i');
-            filtered = filtered.filter(log => regex.test(log.url));
+      const routeId = `route-${++session.routeCounter}`;
+      const rule: RouteRule = {
+        id: routeId,
+        url: args.url,
+        regex: args.regex ?? false,
+        action,
+        status: args.status,
+        headers: args.headers,
+        contentType: args.contentType,
+        body: args.body,
+        path: bodyPath,
+        errorCode: args.errorCode,
+        delay: args.delay,
+        times: args.times,
+        hits: 0,
+        matcher,
+        handler: async (route: Route) => {
+          rule.hits++;
+          if (rule.times && rule.hits >= rule.times) {
+            session.routes.delete(rule.id);
           }
-          if (filter.network.resourceTypes && filter.network.resourceTypes.length > 0) {
-            filtered = filtered.filter(log =>
-              filter.network.resourceTypes.includes(log.resourceType)
-            );
+          if (rule.delay) {
+            await new Promise(resolve => setTimeout(resolve, rule.delay));
           }
-          if (filter.network.failedOnly) {
-            filtered = filtered.filter(log => log.type === 'requestfailed');
+
+          try {
+            if (rule.action === "abort") {
+              await route.abort(rule.errorCode || "failed");
+            } else if (rule.action === "fulfill") {
+              await route.fulfill({
+                status: rule.status ?? 200,
+                headers: rule.headers,
+                contentType: rule.contentType,
+                body: rule.path ? undefined : (rule.body ?? ""),
+                path: rule.path,
+              });
+            } else {
+              await route.continue(rule.headers
+                ? { headers: { ...route.request().headers(), ...rule.headers } }
+                : undefined);
+            }
+          } catch (error) {
+            // Settle the request so the page doesn't hang, and report the error in browser_list_routes
+            rule.lastError = (error as Error).message;
+            await route.abort("failed").catch(() => {});
           }
         }
+      };
 
-        // Apply limit (most recent first)
-        result.network = {
-          total: networkLogs.length,
-          filtered: filtered.length,
-          entries: filtered.slice(-limit).reverse()
+      try {
+        await session.context.route(matcher, rule.handler, rule.times ? { times: rule.times } : undefined);
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to add route: ${(error as Error).message}` }],
+          isError: true
         };
       }
+      session.routes.set(routeId, rule);
 
-      // Clear logs if requested
-      if (clear) {
-        if (logTypes.includes("console")) {
-          consoleLogs.length = 0;
-        }
-        if (logTypes.includes("network")) {
-          networkLogs.length = 0;
-          pendingRequests.clear();
-        }
+      return {
+        content: [{ type: "text", text: `Added route ${routeId}: ${action} requests matching ${args.url}` }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserUnroute: {
+      const routeIds: string[] = args.routeId ? [args.routeId] : Array.from(session.routes.keys());
+
+      if (args.routeId && !session.routes.has(args.routeId)) {
+        const availableRoutes = Array.from(session.routes.keys()).join(", ");
+        return {
+          content: [{ type: "text", text: `Route ${args.routeId} not found. Available routes: ${availableRoutes || "none"}` }],
+          isError: true
+        };
+      }
+
+      for (const routeId of routeIds) {
+        const rule = session.routes.get(routeId)!;
+        try { await session.context?.unroute(rule.matcher, rule.handler); } catch {}
+        session.routes.delete(routeId);
       }
 
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(result, null, 2)
+          text: args.routeId ? `Removed route ${args.routeId}` : `Removed ${routeIds.length} route(s)`
         }],
         isError: false
       };
     }
 
-    case ToolName.BrowserNewTab: {
-      if (!context) {
+    case ToolName.BrowserListRoutes: {
+      if (session.routes.size === 0) {
         return {
-          content: [{ type: "text", text: "No browser is open. Use browser_launch first." }],
+          content: [{ type: "text", text: "No routes are active" }],
+          isError: false
+        };
+      }
+
+      const routeList = Array.from(session.routes.values()).map(({ matcher, handler, ...rule }) => rule);
+      return {
+        content: [{ type: "text", text: JSON.stringify(routeList, null, 2) }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserSetDialogPolicy: {
+      session.dialogPolicy = args.policy;
+      session.dialogPromptText = args.promptText;
+      return {
+        content: [{ type: "text", text: `Dialog policy set to ${args.policy}` }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserHandleDialog: {
+      // Dialogs of closed tabs can no longer be handled
+      for (const [dialogId, pending] of session.pendingDialogs) {
+        if (pending.dialog.page()?.isClosed()) {
+          session.pendingDialogs.delete(dialogId);
+        }
+      }
+
+      const pending = args.dialogId
+        ? session.pendingDialogs.get(args.dialogId)
+        : session.pendingDialogs.values().next().value;
+
+      if (!pending) {
+        const pendingIds = Array.from(session.pendingDialogs.keys()).join(", ");
+        return {
+          content: [{
+            type: "text",
+            text: args.dialogId
+              ? `Dialog ${args.dialogId} not found. Pending dialogs: ${pendingIds || "none"}`
+              : "No dialog is pending"
+          }],
           isError: true
         };
       }
 
-      try {
-        const newPage = await context.newPage();
-        const tabId = generateTabId();
-        tabs.set(tabId, { page: newPage, id: tabId });
-        activeTabId = tabId;
-        attachPageListeners(newPage);
+      session.pendingDialogs.delete(pending.id);
+      const { dialog } = pending;
 
-        // Navigate to URL if provided
-        if (args.url) {
-          await newPage.goto(args.url);
-          return {
-            content: [{ type: "text", text: `Opened new tab ${tabId} and navigated to ${args.url}` }],
-            isError: false
-          };
+      try {
+        if (args.action === "accept") {
+          await dialog.accept(args.promptText);
+        } else {
+          await dialog.dismiss();
         }
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to handle dialog ${pending.id}: ${(error as Error).message}` }],
+          isError: true
+        };
+      }
+
+      const actionText = args.action === "accept" ? "Accepted" : "Dismissed";
+      addConsoleLog(session, "dialog", `${dialog.type()} dialog: ${dialog.message()} (${actionText.toLowerCase()} by ${pending.id})`);
+      return {
+        content: [{
+          type: "text",
+          text: `${actionText} ${dialog.type()} dialog ${pending.id}: ${dialog.message()}`
+        }],
+        isError: false
+      };
+    }
+
+    case ToolName.BrowserPressKey: {
+      const count = args.count ?? 1;
+      const target = hasTarget(args) ? describeTarget(args) : "page";
 
+      try {
+        const element = hasTarget(args) ? await resolveElement(page, args) : undefined;
+        for (let i = 0; i < count; i++) {
+          if (element) {
+            await element.locator.press(args.key);
+            recordLocatorAction(session, element.code, `press(${quote(args.key)})`);
+          } else {
+            await page.keyboard.press(args.key);
+            recordAction(session, pageVar => `await ${pageVar}.keyboard.press(${quote(args.key)});`);
+          }
+        }
         return {
-          content: [{ type: "text", text: `Opened new tab ${tabId} (now active)` }],
+          content: [{ type: "text", text: `Pressed ${args.key}${count > 1 ? ` ${count} times` : ""} on ${target}` }],
           isError: false
         };
       } catch (error) {
         return {
-          content: [{ type: "text", text: `Failed to open new tab: ${(error as Error).message}` }],
+          content: [{ type: "text", text: `Failed to press ${args.key} on ${target}: ${(error as Error).message}` }],
           isError: true
         };
       }
     }
 
-    case ToolName.BrowserListTabs: {
-      if (tabs.size === 0) {
+    case ToolName.BrowserType: {
+      const delay = args.delay ?? 0;
+      const target = hasTarget(args) ? describeTarget(args) : "focused element";
+
+      try {
+        if (hasTarget(args)) {
+          const { locator, code } = await resolveElement(page, args);
+          await locator.pressSequentially(args.text, { delay });
+          recordLocatorAction(session, code, `pressSequentially(${quote(args.text)})`);
+          if (args.submit) {
+            await locator.press("Enter");
+            recordLocatorAction(session, code, "press('Enter')");
+          }
+        } else {
+          await page.keyboard.type(args.text, { delay });
+          recordAction(session, pageVar => `await ${pageVar}.keyboard.type(${quote(args.text)});`);
+          if (args.submit) {
+            await page.keyboard.press("Enter");
+            recordAction(session, pageVar => `await ${pageVar}.keyboard.press('Enter');`);
+          }
+        }
         return {
-          content: [{ type: "text", text: "No tabs are open" }],
+          content: [{ type: "text", text: `Typed into ${target}: ${args.text}${args.submit ? " (submitted)" : ""}` }],
           isError: false
         };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to type into ${target}: ${(error as Error).message}` }],
+          isError: true
+        };
       }
+    }
+
+    case ToolName.BrowserMouse: {
+      const button = args.button || "left";
 
       try {
-        const tabList = await Promise.all(
-          Array.from(tabs.values()).map(async (tab) => {
-            const url = tab.page.url();
-            const title = await tab.page.title();
-            const isActive = tab.id === activeTabId;
-            return {
-              id: tab.id,
-              url,
-              title,
-              active: isActive
-            };
-          })
-        );
+        let x = args.x;
+        let y = args.y;
+        if (hasTarget(args)) {
+          const box = await (await resolveElement(page, args)).locator.boundingBox();
+          if (!box) {
+            throw new Error(`${describeTarget(args)} is not visible`);
+          }
+          x = box.x + (x ?? box.width / 2);
+          y = box.y + (y ?? box.height / 2);
+        }
+
+        if ((x === undefined || y === undefined) && args.action !== "down" && args.action !== "up") {
+          throw new Error("x and y (or a selector or ref) are required");
+        }
 
+        switch (args.action) {
+          case "move":
+            await page.mouse.move(x, y);
+            break;
+          case "click":
+            await page.mouse.click(x, y, { button });
+            break;
+          case "double_click":
+            await page.mouse.dblclick(x, y, { button });
+            break;
+          case "right_click":
+            await page.mouse.click(x, y, { button: "right" });
+            break;
+          case "down":
+          case "up":
+            if (x !== undefined && y !== undefined) {
+              await page.mouse.move(x, y);
+            }
+            await (args.action === "down" ? page.mouse.down({ button }) : page.mouse.up({ button }));
+            break;
+          default:
+            throw new Error(`Unknown mouse action: ${args.action}`);
+        }
+
+        const position = x !== undefined && y !== undefined ? ` at (${Math.round(x)}, ${Math.round(y)})` : "";
         return {
-          content: [{ type: "text", text: JSON.stringify(tabList, null, 2) }],
+          content: [{ type: "text", text: `Mouse ${args.action}${position}` }],
           isError: false
         };
       } catch (error) {
         return {
-          content: [{ type: "text", text: `Failed to list tabs: ${(error as Error).message}` }],
+          content: [{ type: "text", text: `Failed to perform mouse ${args.action}: ${(error as Error).message}` }],
           isError: true
         };
       }
     }
 
-    case ToolName.BrowserSwitchTab: {
-      const tabId = args.tabId;
+    case ToolName.BrowserDrag: {
+      const sourceArgs = { ...args, selector: args.sourceSelector, ref: args.sourceRef, locator: args.sourceLocator };
+      const targetArgs = { ...args, selector: args.targetSelector, ref: args.targetRef, locator: args.targetLocator };
 
-      if (!tabs.has(tabId)) {
-        const availableTabs = Array.from(tabs.keys()).join(", ");
+      try {
+        const { locator: source, code: sourceCode } = await resolveElement(page, sourceArgs);
+        const { locator: target, code: targetCode } = await resolveElement(page, targetArgs);
+        await source.dragTo(target);
+        if (sourceCode && targetCode) {
+          recordAction(session, pageVar =>
+            `await ${pageVar}.${withPageVar(sourceCode, pageVar)}.dragTo(${pageVar}.${withPageVar(targetCode, pageVar)});`
+          );
+        }
         return {
-          content: [{ type: "text", text: `Tab ${tabId} not found. Available tabs: ${availableTabs || "none"}` }],
+          content: [{ type: "text", text: `Dragged ${describeTarget(sourceArgs)} to ${describeTarget(targetArgs)}` }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: `Failed to drag ${describeTarget(sourceArgs)} to ${describeTarget(targetArgs)}: ${(error as Error).message}`
+          }],
           isError: true
         };
       }
+    }
 
-      activeTabId = tabId;
-      const tab = tabs.get(tabId)!;
+    case ToolName.BrowserScroll: {
+      const deltaX = args.deltaX ?? 0;
+      const deltaY = args.deltaY ?? 0;
+      const scrollTarget = hasTarget(args);
 
-      // Bring the tab to front
       try {
-        await tab.page.bringToFront();
-      } catch {}
-
-      const url = tab.page.url();
-      const title = await tab.page.title();
-
-      return {
-        content: [{ type: "text", text: `Switched to tab ${tabId} (${title || url})` }],
-        isError: false
-      };
-    }
-
-    case ToolName.BrowserCloseTab: {
-      const tabId = args.tabId || activeTabId;
+        const frame = await getTargetFrame(page, args);
+        let target: Locator | undefined;
+        if (scrollTarget) {
+          const { locator } = await resolveElement(page, args);
+          target = locator;
+          if (deltaX === 0 && deltaY === 0) {
+            await locator.scrollIntoViewIfNeeded();
+            return {
+              content: [{ type: "text", text: `Scrolled ${describeTarget(args)} into view` }],
+              isError: false
+            };
+          }
+          // The wheel scrolls whatever is under the mouse
+          await locator.hover();
+          await page.mouse.wheel(deltaX, deltaY);
+        } else {
+          // The wheel would scroll whatever is under the mouse, so scroll the document directly
+          await frame.evaluate(({ deltaX, deltaY }) => {
+            (document.scrollingElement ?? document.documentElement).scrollBy(deltaX, deltaY);
+          }, { deltaX, deltaY });
+        }
 
-      if (!tabId) {
+        const position = await waitForScrollToSettle(frame, target);
+        const scope = frame === page.mainFrame() ? "Page" : "Frame";
         return {
-          content: [{ type: "text", text: "No tab specified and no active tab" }],
+          content: [{
+            type: "text",
+            text: `Scrolled ${scrollTarget ? describeTarget(args) : scope.toLowerCase()} by (${deltaX}, ${deltaY}). ${scope} scroll position: (${position.x}, ${position.y})`
+          }],
+          isError: false
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Failed to scroll: ${(error as Error).message}` }],
           isError: true
         };
       }
+    }
 
-      if (!tabs.has(tabId)) {
+    case ToolName.BrowserExportScript: {
+      if (session.recordedActions.length === 0) {
         return {
-          content: [{ type: "text", text: `Tab ${tabId} not found` }],
+          content: [{ type: "text", text: "No interactions have been recorded in this session" }],
           isError: true
         };
       }
 
-      const tab = tabs.get(tabId)!;
-
-      try {
-        await tab.page.close();
-      } catch {}
-
-      tabs.delete(tabId);
-
-      // If we closed the active tab, switch to another one
-      if (activeTabId === tabId) {
-        const remainingTabs = Array.from(tabs.keys());
-        if (remainingTabs.length > 0) {
-          activeTabId = remainingTabs[0];
-          return {
-            content: [{ type: "text", text: `Closed tab ${tabId}. Switched to ${activeTabId}` }],
-            isError: false
-          };
-        } else {
-          activeTabId = undefined;
-          return {
-            content: [{ type: "text", text: `Closed tab ${tabId}. No tabs remaining.` }],
-            isError: false
-          };
-        }
+      const script = generateScript(session, args.format || "test", args.testName || "recorded session");
+      if (args.clear) {
+        session.recordedActions = [];
       }
 
       return {
-        content: [{ type: "text", text: `Closed tab ${tabId}` }],
+        content: [{ type: "text", text: script }],
         isError: false
       };
     }
 
-    case ToolName.BrowserWaitForSelector: {
-      const selector = args.selector;
-      const state = args.state || "visible";
-      const timeout = args.timeout ?? 30000;
-      const startTime = Date.now();
+    case ToolName.BrowserTraceStart: {
+      if (session.tracing) {
+        return {
+          content: [{ type: "text", text: `Trace '${session.tracing.name}' is already being recorded` }],
+          isError: true
+        };
+      }
 
+      const traceName = (args.name || `trace-${Date.now()}`).replace(/[^\w.-]/g, "_");
       try {
-        await page.waitForSelector(selector, { state, timeout });
-        const elapsed = Date.now() - startTime;
+        await session.context!.tracing.start({
+          name: traceName,
+          title: args.title,
+          screenshots: args.screenshots ?? true,
+          snapshots: args.snapshots ?? true,
+          sources: args.sources ?? true,
+        });
+        session.tracing = { name: traceName, path: path.join(TRACE_DIR, `${traceName}.zip`) };
         return {
-          content: [{
-            type: "text",
-            text: `Selector "${selector}" reached state "${state}" after ${elapsed}ms`
-          }],
+          content: [{ type: "text", text: `Started trace '${traceName}'` }],
           isError: false
         };
       } catch (error) {
-        const elapsed = Date.now() - startTime;
         return {
-          content: [{
-            type: "text",
-            text: `Timeout: Waited ${elapsed}ms for selector "${selector}" to reach state "${state}". ${(error as Error).message}`
-          }],
+          content: [{ type: "text", text: `Failed to start trace: ${(error as Error).message}` }],
           isError: true
         };
       }
     }
 
-    case ToolName.BrowserWaitForLoadState: {
-      const state = args.state as "load" | "domcontentloaded" | "networkidle";
-      const timeout = args.timeout ?? 30000;
-      const startTime = Date.now();
+    case ToolName.BrowserTraceStop: {
+      if (!session.tracing) {
+        return {
+          content: [{ type: "text", text: "No trace is being recorded. Start one with browser_trace_start." }],
+          isError: true
+        };
+      }
 
       try {
-        await page.waitForLoadState(state, { timeout });
-        const elapsed = Date.now() - startTime;
+        const trace = await saveTrace(session);
         return {
           content: [{
             type: "text",
-            text: `Page reached load state "${state}" after ${elapsed}ms`
+            text: `Trace '${trace.name}' written to ${trace.path} (resource: trace://${trace.name}). Open it with: npx playwright show-trace ${trace.path}`
           }],
           isError: false
         };
       } catch (error) {
-        const elapsed = Date.now() - startTime;
         return {
-          content: [{
-            type: "text",
-            text: `Timeout: Waited ${elapsed}ms for load state "${state}". ${(error as Error).message}`
-          }],
+          content: [{ type: "text", text: `Failed to save trace: ${(error as Error).message}` }],
           isError: true
         };
       }
     }
 
-    case ToolName.BrowserWaitForUrl: {
-      const url = args.url;
-      const timeout = args.timeout ?? 30000;
-      const startTime = Date.now();
+    case ToolName.BrowserCompareScreenshots: {
+      if (!args.baseline === !args.baselineFile) {
+        return {
+          content: [{ type: "text", text: "Provide either baseline or baselineFile" }],
+          isError: true
+        };
+      }
 
       try {
-        await page.waitForURL(url, { timeout });
-        const elapsed = Date.now() - startTime;
-        const currentUrl = page.url();
+        let baseline: Buffer;
+        const baselineCapture = args.baseline ? session.screenshots.get(args.baseline)?.capture : undefined;
+        if (args.baseline) {
+          const stored = await readScreenshot(session, args.baseline);
+          if (!stored) {
+            throw new Error(`Screenshot '${args.baseline}' not found`);
+          }
+          baseline = stored;
+        } else {
+          baseline = await fs.readFile(await resolveUploadPath(args.baselineFile));
+        }
+
+        let current: Buffer;
+        let currentCapture: ScreenshotCaptureOptions | undefined;
+        if (args.current) {
+          currentCapture = session.screenshots.get(args.current)?.capture;
+          const stored = await readScreenshot(session, args.current);
+          if (!stored) {
+            throw new Error(`Screenshot '${args.current}' not found`);
+          }
+          current = stored;
+        } else {
+          // Take the fresh screenshot the way the baseline was taken
+          currentCapture = {
+            ...baselineCapture,
+            ...(args.selector !== undefined && { selector: args.selector, clip: undefined }),
+            ...(args.fullPage !== undefined && { fullPage: args.fullPage }),
+          };
+          current = await captureScreenshot(page, currentCapture);
+        }
+
+        const grayscale = baselineCapture && currentCapture ? !!(baselineCapture.grayscale || currentCapture.grayscale) : undefined;
+        const diff = await diffImages(...await normalizeImages(baseline, current, grayscale), args.threshold ?? 0.1);
+        const base64Diff = diff.diffImage.toString('base64');
+        const diffName = args.diffName && (args.overwrite ? args.diffName : getUniqueScreenshotName(session, args.diffName));
+        if (diffName) {
+          await storeScreenshot(session, diffName, diff.diffImage, "image/png", {
+            tabId: session.activeTabId,
+            url: page.url(),
+          });
+        }
+
+        const [baselineMeta, currentMeta] = await Promise.all([sharp(baseline).metadata(), sharp(current).metadata()]);
+        const result = {
+          changedPixels: diff.changedPixels,
+          changedPercentage: Number((diff.changedPixels / (diff.width * diff.height) * 100).toFixed(3)),
+          baselineSize: { width: baselineMeta.width, height: baselineMeta.height },
+          currentSize: { width: currentMeta.width, height: currentMeta.height },
+          regions: diff.regions,
+          diffImage: diffName ? sessionUri(session, `screenshot://${diffName}`) : undefined,
+        };
+
         return {
-          content: [{
-            type: "text",
-            text: `URL matched pattern "${url}" after ${elapsed}ms. Current URL: ${currentUrl}`
-          }],
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            } as TextContent,
+            {
+              type: "image",
+              data: base64Diff,
+              mimeType: "image/png",
+            } as ImageContent,
+          ],
           isError: false
         };
       } catch (error) {
-        const elapsed = Date.now() - startTime;
-        const currentUrl = page.url();
         return {
-          content: [{
-            type: "text",
-            text: `Timeout: Waited ${elapsed}ms for URL to match "${url}". Current URL: ${currentUrl}. ${(error as Error).message}`
-          }],
+          content: [{ type: "text", text: `Failed to compare screenshots: ${(error as Error).message}` }],
           isError: true
         };
       }
     }
 
-    case ToolName.BrowserWaitForFunction: {
-      const expression = args.expression;
-      const timeout = args.timeout ?? 30000;
-      const polling = args.polling ?? "raf";
-      const startTime = Date.now();
+    case ToolName.BrowserUpload: {
+      let files: string[];
+      try {
+        files = await Promise.all((args.paths as string[]).map(resolveUploadPath));
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: (error as Error).message }],
+          isError: true
+        };
+      }
 
       try {
-        const result = await page.waitForFunction(expression, { timeout, polling });
-        const elapsed = Date.now() - startTime;
-        const value = await result.jsonValue();
+        const { locator } = await resolveElement(page, args);
+        const isFileInput = await locator.evaluate(el =>
+          el instanceof HTMLInputElement && el.type === "file"
+        );
+
+        if (isFileInput) {
+          await locator.setInputFiles(files);
+        } else {
+          const [fileChooser] = await Promise.all([
+            page.waitForEvent("filechooser", { timeout: 10000 }),
+            locator.click(),
+          ]);
+          await fileChooser.setFiles(files);
+        }
+
         return {
           content: [{
             type: "text",
-            text: `Function returned truthy after ${elapsed}ms. Result: ${JSON.stringify(value)}`
+            text: `Uploaded ${files.length} file(s) to ${describeTarget(args)}: ${files.map(file => path.basename(file)).join(", ")}`
           }],
           isError: false
         };
       } catch (error) {
-        const elapsed = Date.now() - startTime;
         return {
-          content: [{
-            type: "text",
-            text: `Timeout: Waited ${elapsed}ms for function to return truthy. Expression: "${expression}". ${(error as Error).message}`
-          }],
+          content: [{ type: "text", text: `Failed to upload to ${describeTarget(args)}: ${(error as Error).message}` }],
           isError: true
         };
       }
     }
 
+    case ToolName.BrowserListDownloads: {
+      if (session.downloads.size === 0) {
+        return {
+          content: [{ type: "text", text: "No downloads" }],
+          isError: false
+        };
+      }
+
+      const downloadList = Array.from(session.downloads.values()).map(download => ({
+        ...download,
+        uri: download.state === 'completed' ? sessionUri(session, `download://${download.id}`) : undefined
+      }));
+      return {
+        content: [{ type: "text", text: JSON.stringify(downloadList, null, 2) }],
+        isError: false
+      };
+    }
+
     default:
       return {
         content: [{
@@ -1490,42 +5546,119 @@ async function handleToolCall(name: ToolName, args: any): Promise<CallToolResult
   }
 }
 
-const server = new Server(
-  {
-    name: "automatalabs/playwright",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: {},
-    },
-  },
-);
+// Connected MCP servers: one for stdio, one per client session for http
+// Helper to run a tool call, returning as soon as it opens a dialog held for browser_handle_dialog
+// (Playwright doesn't finish an action while the dialog it opened is open)
+async function runToolCall(name: ToolName, args: any, client: ClientState): Promise<CallToolResult> {
+  const session = sessions.get(args.session || client.activeSessionName);
+  if (!session || !DIALOG_TOOLS.includes(name)) {
+    return handleToolCall(name, args, client);
+  }
+
+  // Actions on a page that already shows a held dialog would never finish
+  const activePage = getActivePage(session);
+  const blocking = Array.from(session.pendingDialogs.values()).find(pending => pending.dialog.page() === activePage);
+  if (blocking && name !== ToolName.BrowserCloseTab) {
+    return {
+      content: [{
+        type: "text",
+        text: `${blocking.id} pending: ${blocking.dialog.type()} ${blocking.dialog.message()}. Accept or dismiss it with browser_handle_dialog first.`
+      }],
+      isError: true
+    };
+  }
 
+  let waiter!: (pending: PendingDialog) => void;
+  const held = new Promise<CallToolResult>(resolve => {
+    waiter = ({ id, dialog }) => resolve({
+      content: [{
+        type: "text",
+        text: `${id} pending: ${dialog.type()} ${dialog.message()}. Accept or dismiss it with browser_handle_dialog.`
+      }],
+      isError: false
+    });
+  });
+  session.dialogWaiters.add(waiter);
+  try {
+    return await Promise.race([handleToolCall(name, args, client), held]);
+  } finally {
+    session.dialogWaiters.delete(waiter);
+  }
+}
+
+const servers = new Set<Server>();
+
+// Helper to send a notification to every connected client
+function notifyClients(notification: ServerNotification) {
+  for (const server of servers) {
+    server.notification(notification).catch(() => {});
+  }
+}
 
-// Setup request handlers
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+// Resource handlers
+const listResources = async () => ({
   resources: [
-    {
-      uri: "console://logs",
-      mimeType: "text/plain",
-      name: "Browser console logs",
-    },
-    ...Array.from(screenshots.keys()).map(name => ({
-      uri: `screenshot://${name}`,
-      mimeType: "image/png",
-      name: `Screenshot: ${name}`,
+    ...Array.from(sessions.values()).flatMap(session => [
+      {
+        uri: sessionUri(session, "console://logs"),
+        mimeType: "text/plain",
+        name: session.name === DEFAULT_SESSION ? "Browser console logs" : `Browser console logs (${session.name})`,
+      },
+      ...Array.from(session.screenshots.values()).flatMap(screenshot => [
+        {
+          uri: sessionUri(session, `screenshot://${screenshot.name}`),
+          mimeType: screenshot.mimeType,
+          name: session.name === DEFAULT_SESSION ? `Screenshot: ${screenshot.name}` : `Screenshot: ${screenshot.name} (${session.name})`,
+          description: `${screenshot.width}x${screenshot.height} screenshot of ${screenshot.url ?? "unknown page"}${screenshot.tabId ? ` (${screenshot.tabId})` : ""} taken ${new Date(screenshot.timestamp).toISOString()}`,
+          size: screenshot.size,
+          _meta: {
+            tabId: screenshot.tabId,
+            url: screenshot.url,
+            timestamp: screenshot.timestamp,
+            width: screenshot.width,
+            height: screenshot.height,
+          },
+        },
+        ...(screenshot.thumbnailPath ? [{
+          uri: sessionUri(session, `thumbnail://${screenshot.name}`),
+          mimeType: "image/png",
+          name: `Thumbnail: ${screenshot.name}`,
+        }] : []),
+      ]),
+      ...Array.from(session.pdfs.keys()).map(name => ({
+        uri: sessionUri(session, `pdf://${name}`),
+        mimeType: "application/pdf",
+        name: session.name === DEFAULT_SESSION ? `PDF: ${name}` : `PDF: ${name} (${session.name})`,
+      })),
+      ...Array.from(session.downloads.values())
+        .filter(download => download.state === 'completed')
+        .map(download => ({
+          uri: sessionUri(session, `download://${download.id}`),
+          mimeType: getMimeType(download.path!),
+          name: `Download: ${download.suggestedFilename}`,
+        })),
+    ]),
+    ...Array.from(harFiles.keys()).map(name => ({
+      uri: `har://${name}`,
+      mimeType: "application/json",
+      name: `HAR: ${name}`,
+    })),
+    ...Array.from(traceFiles.keys()).map(name => ({
+      uri: `trace://${name}`,
+      mimeType: "application/zip",
+      name: `Trace: ${name}`,
     })),
   ],
-}));
+});
 
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+const readResource = async (request: ReadResourceRequest) => {
   const uri = request.params.uri.toString();
+  const [resourceUri, query] = uri.split("?");
+  const session = sessions.get(new URLSearchParams(query).get("session") ?? DEFAULT_SESSION);
 
-  if (uri === "console://logs") {
+  if (session && resourceUri === "console://logs") {
     // Format console logs for resource read
-    const formattedLogs = consoleLogs.map(log =>
+    const formattedLogs = session.consoleLogs.map(log =>
       `[${log.type}] ${log.text}`
     ).join("\n");
 
@@ -1538,36 +5671,308 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     };
   }
 
-  if (uri.startsWith("screenshot://")) {
+  if (session && (resourceUri.startsWith("screenshot://") || resourceUri.startsWith("thumbnail://"))) {
+    const [scheme, name] = resourceUri.split("://");
+    const thumbnail = scheme === "thumbnail";
+    const screenshot = session.screenshots.get(name);
+    const image = await readScreenshot(session, name, thumbnail);
+    if (screenshot && image) {
+      return {
+        contents: [{
+          uri,
+          mimeType: thumbnail ? "image/png" : screenshot.mimeType,
+          blob: image.toString("base64"),
+        }],
+      };
+    }
+  }
+
+  if (session && resourceUri.startsWith("pdf://")) {
+    const pdfPath = session.pdfs.get(resourceUri.split("://")[1]);
+    if (pdfPath) {
+      return {
+        contents: [{
+          uri,
+          mimeType: "application/pdf",
+          blob: (await fs.readFile(pdfPath)).toString("base64"),
+        }],
+      };
+    }
+  }
+
+  if (session && resourceUri.startsWith("download://")) {
+    const download = session.downloads.get(resourceUri.split("://")[1]);
+    if (download?.path) {
+      return {
+        contents: [{
+          uri,
+          mimeType: getMimeType(download.path),
+          blob: (await fs.readFile(download.path)).toString("base64"),
+        }],
+      };
+    }
+  }
+
+  if (uri.startsWith("har://")) {
     const name = uri.split("://")[1];
-    const screenshot = screenshots.get(name);
-    if (screenshot) {
+    const harPath = harFiles.get(name);
+    if (harPath) {
       return {
         contents: [{
           uri,
-          mimeType: "image/png",
-          blob: screenshot,
+          mimeType: "application/json",
+          text: await fs.readFile(harPath, "utf-8"),
         }],
       };
     }
   }
 
-  throw new Error(`Resource not found: ${uri}`);
-});
+  if (uri.startsWith("trace://")) {
+    const name = uri.split("://")[1];
+    const tracePath = traceFiles.get(name);
+    if (tracePath) {
+      return {
+        contents: [{
+          uri,
+          mimeType: "application/zip",
+          blob: (await fs.readFile(tracePath)).toString("base64"),
+        }],
+      };
+    }
+  }
 
+  throw new Error(`Resource not found: ${uri}`);
+};
 
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "automatalabs/playwright",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        resources: {},
+        tools: {},
+      },
+    },
+  );
 
-async function runServer() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  server.setRequestHandler(ListResourcesRequestSchema, listResources);
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
 
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools: TOOLS,
   }));
-  
+
+  const client: ClientState = { activeSessionName: DEFAULT_SESSION };
   server.setRequestHandler(CallToolRequestSchema, async (request) =>
-    handleToolCall(request.params.name as ToolName, request.params.arguments ?? {})
+    runToolCall(request.params.name as ToolName, request.params.arguments ?? {}, client)
   );
+
+  servers.add(server);
+  clients.add(client);
+  server.onclose = () => {
+    servers.delete(server);
+    clients.delete(client);
+  };
+  return server;
+}
+
+interface ServerOptions {
+  transport: "stdio" | "http";
+  port: number;
+  host: string;
+  token?: string;
+}
+
+// Helper to reply with a JSON-RPC error outside of a session
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  }));
+}
+
+// Largest request body accepted over http
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class PayloadTooLargeError extends Error {}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+// Helper to list the Host header values the http server answers to. Checking them keeps
+// web pages that rebind their own hostname to this address from driving the browser.
+function getAllowedHosts(host: string, port: number): string[] {
+  const names = new Set([host, "localhost", "127.0.0.1", "::1"]);
+  if (host === "0.0.0.0" || host === "::") {
+    names.add(os.hostname());
+    for (const addresses of Object.values(os.networkInterfaces())) {
+      for (const address of addresses ?? []) {
+        names.add(address.address);
+      }
+    }
+  }
+  return Array.from(names).flatMap(name => {
+    const hostname = name.includes(":") ? `[${name}]` : name;
+    return port === 80 ? [hostname, `${hostname}:${port}`] : [`${hostname}:${port}`];
+  });
+}
+
+// Helper to check the Host and Origin headers of a request, returning the reason to reject it
+function validateRequestHeaders(req: http.IncomingMessage, allowedHosts: string[], allowedOrigins: string[]): string | undefined {
+  if (!req.headers.host || !allowedHosts.includes(req.headers.host)) {
+    return `Invalid Host header: ${req.headers.host}`;
+  }
+  if (req.headers.origin && !allowedOrigins.includes(req.headers.origin)) {
+    return `Invalid Origin header: ${req.headers.origin}`;
+  }
+  return undefined;
+}
+
+// Helper to compare the bearer token in constant time
+function hasValidToken(req: http.IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Serve MCP over Streamable HTTP at /mcp, with the legacy SSE transport at /sse.
+// All clients share the browser sessions, each switching between them on its own.
+async function runHttpServer(options: ServerOptions) {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const allowedHosts = getAllowedHosts(options.host, options.port);
+  const allowedOrigins = allowedHosts.map(host => `http://${host}`);
+  const dnsRebindingOptions = { enableDnsRebindingProtection: true, allowedHosts, allowedOrigins };
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const headerError = validateRequestHeaders(req, allowedHosts, allowedOrigins);
+      if (headerError) {
+        res.writeHead(403).end(headerError);
+        return;
+      }
+
+      if (options.token && !hasValidToken(req, options.token)) {
+        res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end("Unauthorized");
+        return;
+      }
+
+      const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+      if (url.pathname === "/mcp") {
+        const sessionId = req.headers["mcp-session-id"] as string | undefined;
+        let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+
+        let body: unknown;
+        if (req.method === "POST") {
+          try {
+            body = await readJsonBody(req);
+          } catch (error) {
+            if (error instanceof PayloadTooLargeError) {
+              sendJsonRpcError(res, 413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+            } else {
+              sendJsonRpcError(res, 400, -32700, "Parse error");
+            }
+            return;
+          }
+        }
+
+        if (!transport) {
+          if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+            sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? "Session not found" : "No valid session ID provided");
+            return;
+          }
+
+          const newTransport = new StreamableHTTPServerTransport({
+            ...dnsRebindingOptions,
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (id) => {
+              streamableTransports.set(id, newTransport);
+            },
+          });
+          newTransport.onclose = () => {
+            if (newTransport.sessionId) {
+              streamableTransports.delete(newTransport.sessionId);
+            }
+          };
+          await createServer().connect(newTransport);
+          transport = newTransport;
+        }
+
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (url.pathname === "/sse" && req.method === "GET") {
+        const transport = new SSEServerTransport("/messages", res, dnsRebindingOptions);
+        sseTransports.set(transport.sessionId, transport);
+        transport.onclose = () => {
+          sseTransports.delete(transport.sessionId);
+        };
+        await createServer().connect(transport);
+        return;
+      }
+
+      if (url.pathname === "/messages" && req.method === "POST") {
+        const transport = sseTransports.get(url.searchParams.get("sessionId") || "");
+        if (!transport) {
+          res.writeHead(404).end("Session not found");
+          return;
+        }
+        let body: unknown;
+        try {
+          body = await readJsonBody(req);
+        } catch (error) {
+          const tooLarge = error instanceof PayloadTooLargeError;
+          res.writeHead(tooLarge ? 413 : 400).end(tooLarge ? "Payload too large" : "Invalid JSON");
+          return;
+        }
+        await transport.handlePostMessage(req, res, body);
+        return;
+      }
+
+      res.writeHead(404).end("Not found");
+    } catch (error) {
+      console.error("Error handling request:", error);
+      if (!res.headersSent) {
+        res.writeHead(500).end("Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+  console.error(`MCP Playwright server listening on http://${options.host}:${options.port}/mcp (SSE: /sse)`);
+}
+
+async function runServer(options: ServerOptions) {
+  if (options.transport === "http") {
+    await runHttpServer(options);
+    return;
+  }
+
+  const server = createServer();
+  await server.connect(new StdioServerTransport());
 }
 
 async function checkPlatformAndInstall() {
@@ -1663,18 +6068,99 @@ async function checkPlatformAndInstall() {
 (async () => {
   try {
     // Parse args but continue with server if no command specified
-    await yargs(hideBin(process.argv))
+    const argv = await yargs(hideBin(process.argv))
       .command('install', 'Install MCP-Server-Playwright dependencies', () => {}, async () => {
         await checkPlatformAndInstall();
         // Exit after successful installation
         process.exit(0);
       })
+      .option('transport', {
+        choices: ['stdio', 'http'] as const,
+        default: 'stdio' as const,
+        description: 'Transport to serve MCP over'
+      })
+      .option('port', {
+        type: 'number',
+        default: 8931,
+        description: 'Port to listen on (http transport)'
+      })
+      .option('host', {
+        type: 'string',
+        default: 'localhost',
+        description: 'Host to bind to (http transport)'
+      })
+      .option('token', {
+        type: 'string',
+        description: 'Bearer token clients must send (http transport, or set MCP_PLAYWRIGHT_TOKEN)'
+      })
+      .option('state-dir', {
+        type: 'string',
+        default: config.stateDir,
+        description: 'Directory where browser_save_storage_state writes storage states'
+      })
+      .option('upload-dir', {
+        type: 'string',
+        default: config.uploadDir,
+        description: 'Directory browser_upload, browser_route, browser_compare_screenshots and browser_launch replayHar may read files from'
+      })
+      .option('downloads-dir', {
+        type: 'string',
+        default: config.downloadsDir,
+        description: 'Directory where downloads are saved'
+      })
+      .option('output-dir', {
+        type: 'string',
+        default: config.outputDir,
+        description: 'Directory where browser_pdf writes saved PDFs and keeps the PDFs behind pdf:// resources'
+      })
+      .option('screenshots-dir', {
+        type: 'string',
+        default: config.screenshotsDir,
+        description: 'Directory where screenshots are stored'
+      })
+      .option('max-screenshots', {
+        type: 'number',
+        default: config.maxScreenshots,
+        description: 'Maximum number of stored screenshots; the least recently used are removed first'
+      })
+      .option('max-screenshots-mb', {
+        type: 'number',
+        default: config.maxScreenshotBytes / (1024 * 1024),
+        description: 'Maximum total size of stored screenshots in megabytes'
+      })
+      .option('ambiguity', {
+        choices: ['error', 'first', 'last', 'nth'] as const,
+        default: 'error' as const,
+        description: 'What interaction tools do when a locator matches several elements, unless a call passes ambiguity'
+      })
+      .option('ambiguity-index', {
+        type: 'number',
+        description: 'Index of the match to use with --ambiguity nth (negative indexes count from the end), unless a call passes ambiguityIndex'
+      })
       .strict()
       .help()
       .parse();
 
     // If we get here, no command was specified, so run the server
-    await runServer().catch(console.error);
+    config.stateDir = path.resolve(argv.stateDir);
+    config.uploadDir = path.resolve(argv.uploadDir);
+    config.downloadsDir = path.resolve(argv.downloadsDir);
+    config.outputDir = path.resolve(argv.outputDir);
+    config.screenshotsDir = path.resolve(argv.screenshotsDir);
+    config.maxScreenshots = argv.maxScreenshots;
+    config.maxScreenshotBytes = argv.maxScreenshotsMb * 1024 * 1024;
+    if (argv.ambiguity === 'nth' && argv.ambiguityIndex === undefined) {
+      throw new Error('--ambiguity nth needs --ambiguity-index');
+    }
+    config.ambiguityPolicy = argv.ambiguity;
+    config.ambiguityIndex = argv.ambiguityIndex;
+    await loadScreenshotIndex(sessions.get(DEFAULT_SESSION)!);
+    await runServer({
+      transport: argv.transport,
+      port: argv.port,
+      host: argv.host,
+      token: argv.token ?? process.env.MCP_PLAYWRIGHT_TOKEN,
+    }).catch(console.error);
   } catch (error) {
     console.error('Error:', error);
     process.exit(1);